@@ -0,0 +1,170 @@
+import Queue from "./queue";
+
+const QUEUE_CLOSED_ERROR = "Queue is closed.";
+
+interface PendingEnqueue<T> {
+  element: T;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+/*******************************************************************************
+ * A queue for handing work from async producers to async consumers.
+ *
+ * dequeue() waits until there is an element instead of throwing on an empty
+ * queue. With a high-water mark, enqueue() waits while the queue holds that many
+ * elements, which slows producers down to the pace of the consumers.
+ *
+ * Closing the queue stops new elements from coming in. Elements that are
+ * already in the queue can still be dequeued. Once they run out, dequeue()
+ * rejects and `for await` loops over the queue end.
+ *
+ * enqueue(element) - O(1)
+ * dequeue() - O(1)
+ ******************************************************************************/
+
+class AsyncQueue<T> implements AsyncIterable<T> {
+  private items: Queue<T>;
+  private takers: Queue<(result: IteratorResult<T, undefined>) => void>; // consumers waiting for an element
+  private putters: Queue<PendingEnqueue<T>>; // producers waiting for space
+  private highWaterMark: number;
+  private isClosed: boolean;
+
+  constructor(highWaterMark = Infinity) {
+    if (highWaterMark < 1)
+      throw new Error("High-water mark must be at least 1");
+
+    this.items = new Queue();
+    this.takers = new Queue();
+    this.putters = new Queue();
+    this.highWaterMark = highWaterMark;
+    this.isClosed = false;
+  }
+
+  /**************************************************************************
+                                    NICETIES
+    **************************************************************************/
+
+  /**
+   * Returns the number of elements in the queue, not counting waiting producers - O(1)
+   */
+  size(): number {
+    return this.items.size();
+  }
+
+  /**
+   * Returns ture if the queue is empty - false otherwise O(1)
+   */
+  isEmpty(): boolean {
+    return this.items.isEmpty();
+  }
+
+  /**
+   * True once close() was called
+   */
+  get closed(): boolean {
+    return this.isClosed;
+  }
+
+  /**
+   * Closes the queue - O(w) where w is the number of waiting producers and consumers
+   * Waiting consumers are told the queue is done, waiting producers are rejected.
+   * Elements already in the queue can still be dequeued.
+   */
+  close(): void {
+    if (this.isClosed) return;
+    this.isClosed = true;
+
+    //consumers only wait on an empty queue, so there is nothing left for them
+    while (!this.takers.isEmpty()) {
+      this.takers.dequeue()({done: true, value: undefined});
+    }
+
+    while (!this.putters.isEmpty()) {
+      this.putters.dequeue().reject(new Error(QUEUE_CLOSED_ERROR));
+    }
+  }
+
+  /*****************************************************************************
+                                  INSERTION/DELETION
+  *****************************************************************************/
+
+  /**
+   * Enqueues element to the back of the queue - O(1)
+   * Resolves once the element is in the queue, which waits for space if the queue
+   * is at its high-water mark.
+   * @param {T} element - element to be enqueued
+   * @returns {Promise<void>}
+   * @throws Queue Closed error (as a rejection) if the queue is or gets closed
+   */
+  enqueue(element: T): Promise<void> {
+    if (this.isClosed) return Promise.reject(new Error(QUEUE_CLOSED_ERROR));
+
+    //a waiting consumer means the queue is empty, so we hand the element straight over
+    if (!this.takers.isEmpty()) {
+      this.takers.dequeue()({done: false, value: element});
+      return Promise.resolve();
+    }
+
+    if (this.items.size() < this.highWaterMark) {
+      this.items.enqueue(element);
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      this.putters.enqueue({element, resolve, reject});
+    });
+  }
+
+  /**
+   * Dequeues element from the front of the queue - O(1)
+   * Waits for an element if the queue is empty.
+   * @returns {Promise<T>}
+   * @throws Queue Closed error (as a rejection) if the queue is closed and empty
+   */
+  async dequeue(): Promise<T> {
+    const result = await this.take();
+    if (result.done) throw new Error(QUEUE_CLOSED_ERROR);
+
+    return result.value;
+  }
+
+  /*****************************************************************************
+                                  HELPERS
+  *****************************************************************************/
+  async *[Symbol.asyncIterator](): AsyncIterator<T> {
+    while (true) {
+      const result = await this.take();
+      if (result.done) return;
+
+      yield result.value;
+    }
+  }
+
+  /**
+   * Takes the front element, or waits for one. Resolves as done once the queue is closed and empty
+   * @returns {Promise<IteratorResult<T, undefined>>}
+   */
+  private take(): Promise<IteratorResult<T, undefined>> {
+    if (!this.items.isEmpty()) {
+      const value = this.items.dequeue();
+
+      //we made space, so the longest waiting producer gets to put its element in
+      if (!this.putters.isEmpty()) {
+        const putter = this.putters.dequeue();
+        this.items.enqueue(putter.element);
+        putter.resolve();
+      }
+
+      return Promise.resolve({done: false, value});
+    }
+
+    if (this.isClosed) return Promise.resolve({done: true, value: undefined});
+
+    return new Promise((resolve) => {
+      this.takers.enqueue(resolve);
+    });
+  }
+}
+
+export default AsyncQueue;
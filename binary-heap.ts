@@ -0,0 +1,320 @@
+import * as utils from "./utils";
+
+export type HeapOrder = "min" | "max";
+
+export interface HeapOptions<T, O extends HeapOrder = HeapOrder> {
+  order?: O; // whether the smallest or the largest element is on top, defaults to "min"
+  compare?: utils.CompareFunction<T>; // defaults to utils.defaultCompare
+}
+
+/*******************************************************************************
+ * A binary heap implements the Priority Queue ADT. It has constant access to
+ * the top element of the heap, with logarithmic insertions and deletions.
+ *
+ * Whether the min or the max element is on top is up to the order option. A max
+ * heap is a min heap with the compare function reversed: if the largest element
+ * compares as the smallest, it ends up on top. So instead of writing negated
+ * compare functions by hand, pass order: "max" and the compare function you
+ * would use for sorting in ascending order. MinBinaryHeap and MaxBinaryHeap fix
+ * the order. The order is also part of the type, so a max heap can't be passed
+ * where a min heap is expected.
+ *
+ * add(element) - O(logn)
+ * poll() - O(logn) // remove
+ * peek() - O(1)
+ * sortedIterator() - O(klog(k)) for the first k elements
+ *
+ * For more info, refer to https://en.wikipedia.org/wiki/Binary_heap
+ ******************************************************************************/
+
+class BinaryHeap<T, O extends HeapOrder = HeapOrder> implements Iterable<T> {
+  declare private readonly order: O; // only exists for the type checker
+  // a dynamic array to hold our elements
+  private heap: T[];
+  // compares in heap order, the "smaller" element of the two belongs closer to the top
+  private compare: utils.CompareFunction<T>;
+
+  constructor(elements?: Iterable<T>, options: HeapOptions<T, O> = {}) {
+    const compare = options.compare || utils.defaultCompare;
+
+    this.heap = [];
+    this.compare =
+      options.order === "max" ? utils.reverseCompare(compare) : compare;
+    if (elements) {
+      this.heap = Array.from(elements);
+      this.heapify(); //O(n)
+    }
+  }
+
+  // Even though we are looping through n/2 elements and calling sink which is O(logn),
+  // this method is still bounded by O(n), not O(nlogn). The reason being is because
+  // we start at the second last row of the tree. Not sinking the last row of the tree
+  // already removes half the work.
+
+  // See more info on Floyd's heap construction here: https://en.wikipedia.org/wiki/Heapsort#Variations
+  private heapify(): void {
+    let i = Math.max(0, Math.floor(this.size() / 2) - 1);
+    for (; i >= 0; i--) {
+      this.sink(i);
+    }
+  }
+
+  /*****************************************************************************
+                                  INSPECTION
+  *****************************************************************************/
+  /**
+   * Returns the size of the heap - O(1)
+   * @returns {number}
+   */
+  size(): number {
+    return this.heap.length;
+  }
+
+  /**
+   * Returns true if the heap is empty, false otherwise - O(1)
+   * @returns {boolean}
+   */
+  isEmpty(): boolean {
+    return this.size() == 0;
+  }
+
+  /*****************************************************************************
+                                  INSERTION/DELETION
+  *****************************************************************************/
+  /**
+   * Adds an element to the heap, while maintaing the heap invariant - O(log(n))
+   * @param {T} element
+   * @returns {void}
+   */
+  add(element: T): void {
+    this.heap.push(element);
+    const index = this.size() - 1;
+    this.swim(index);
+  }
+
+  /**
+   * Removes and returns top most element of heap - O(log(n))
+   * @returns {T}
+   */
+  poll(): T | null {
+    if (this.isEmpty()) return null;
+
+    return this.removeAt(0);
+  }
+
+  /**
+   * Removes element if it exists. Returns true if success, false otherwise - O(n)
+   * @param {T} element
+   * @returns {boolean}
+   */
+  remove(element: T): boolean {
+    const elementIndex = this.heap.findIndex(
+      (h: T) => this.compare(h, element) === 0,
+    );
+
+    if (elementIndex === -1) return false;
+
+    this.removeAt(elementIndex);
+
+    return true;
+  }
+
+  /**
+   * Clears the heap - O(1)
+   * @returns {void}
+   */
+  clear(): void {
+    this.heap.length = 0;
+  }
+
+  /*****************************************************************************
+                                  ACCESSING
+  *****************************************************************************/
+  /**
+   * Peeks at the top most element in the heap - O(1)
+   * @returns {T}
+   */
+  peek(): T | null {
+    if (this.isEmpty()) return null;
+
+    return this.heap[0]; // the head of our tree
+  }
+
+  /**
+   * Returns the elements in heap order, which is not sorted order - O(n)
+   * @returns {T[]}
+   */
+  toArray(): T[] {
+    return this.heap.slice();
+  }
+
+  /*****************************************************************************
+                                  ITERATION
+  *****************************************************************************/
+  /**
+   * Iterates the elements in heap order, which is not sorted order
+   * The root comes first, then every level of the tree from left to right.
+   */
+  [Symbol.iterator](): Iterator<T> {
+    return this.heap[Symbol.iterator]();
+  }
+
+  /**
+   * Iterates the elements in priority order, without removing them - O(klog(k)) for k elements
+   *
+   * The smallest element not yielded yet is always a child of one that was. So
+   * we keep those candidates in a helper heap of indices into our heap, starting
+   * with the root. Every time we yield the smallest candidate, its children take
+   * its place. The helper heap never grows much bigger than the number of
+   * elements yielded so far, so taking only the first few is cheap.
+   *
+   * The heap must not be changed while iterating.
+   */
+  *sortedIterator(): IterableIterator<T> {
+    if (this.isEmpty()) return;
+
+    const candidates = new BinaryHeap<number>([0], {
+      compare: (a, b) => this.compare(this.heap[a], this.heap[b]),
+    });
+
+    while (!candidates.isEmpty()) {
+      const index = candidates.poll()!;
+      yield this.heap[index];
+
+      const leftChildIndex = this.getLeftChildIndex(index);
+      const rightChildIndex = this.getRightChildIndex(index);
+      if (leftChildIndex < this.size()) candidates.add(leftChildIndex);
+      if (rightChildIndex < this.size()) candidates.add(rightChildIndex);
+    }
+  }
+
+  /*****************************************************************************
+                                  SEARCHING
+  *****************************************************************************/
+  /**
+   * Returns true if element is in heap, false otherwise - O(n)
+   * @param {T} element
+   * @returns {boolean}
+   */
+  contains(element: T): boolean {
+    return this.heap.includes(element);
+  }
+
+  /*****************************************************************************
+                                  HELPERS
+  *****************************************************************************/
+  /**
+   * Sinks element with index k until heap invariant is satisfied - O(log(n))
+   * O(log(n)) because in the worst case we sink the element down the entire
+   * height of the tree
+   * @param {number} k
+   * @returns {void}
+   */
+  private sink(k: number): void {
+    while (true) {
+      //1. get the smallest child index
+      const leftChildIndex = this.getLeftChildIndex(k);
+      const rightChildIndex = this.getRightChildIndex(k);
+
+      let smallestChildIndex = leftChildIndex; //we gonna assume smallest is left.
+      const isRightChildSmallerThanLeft =
+        rightChildIndex < this.size() &&
+        this.less(rightChildIndex, leftChildIndex);
+      if (isRightChildSmallerThanLeft) smallestChildIndex = rightChildIndex;
+
+      //2. Make sure smallest child index is not out of bounds.
+      //we check the bounds first, so we never compare against a child that doesn't exist
+      const childrenAreOutOfBounds = leftChildIndex >= this.size();
+      if (childrenAreOutOfBounds || this.less(k, smallestChildIndex)) break;
+
+      //3. if it is not, then swap the current node with the child
+      this.swap(k, smallestChildIndex);
+      k = smallestChildIndex;
+    }
+  }
+
+  /**
+   * Swims an element with index k until heap invariant is satisfied - O(log(n))
+   * O(log(n)) because in the worst case we swim the element up the entire tree
+   * @param {number} k
+   * @returns {void}
+   */
+  private swim(k: number): void {
+    let parentIndex = this.getParentIndex(k);
+
+    while (k > 0 && this.less(k, parentIndex)) {
+      this.swap(k, parentIndex);
+      k = parentIndex;
+
+      parentIndex = this.getParentIndex(k);
+    }
+  }
+
+  // O(1)
+  private swap(i: number, j: number): void {
+    const temp = this.heap[i];
+
+    this.heap[i] = this.heap[j];
+    this.heap[j] = temp;
+  }
+
+  /**
+   * Removes element at provided index by swapping it with last element, and
+   * heapifying the swapped element by sinking/swimming it - O(log(n)).
+   *
+   * O(log(n)) because in worst case we swink/swim element throughout the entire tree
+   * @param {number} indexToRemove
+   * @returns {T}
+   */
+  private removeAt(indexToRemove: number): T {
+    //1. grab the element at the specified index and save it for later so we can return
+    const removedValue = this.heap[indexToRemove];
+
+    //2. swap element with the last element in our heap
+    const indexOfLastElement = this.size() - 1;
+    this.swap(indexToRemove, indexOfLastElement);
+    this.heap.pop();
+
+    //3. if the element we're removing is the last element in the heap, return that now
+    const isLastElementBeingRemoved = indexToRemove === indexOfLastElement;
+    if (isLastElementBeingRemoved) return removedValue;
+
+    //4. heapify
+    //first we will try to sink for heapification
+    const indexToBeHeapified = indexToRemove;
+    const elementToBeHeapified = this.heap[indexToBeHeapified];
+    this.sink(indexToBeHeapified);
+    //if that didn't work then we will try to swim
+    const elementDidNotMove =
+      this.heap[indexToBeHeapified] === elementToBeHeapified;
+    if (elementDidNotMove) {
+      this.swim(indexToBeHeapified);
+    }
+    //5. return the saved value of the removed value
+    return removedValue;
+  }
+
+  // O(1)
+  private getLeftChildIndex(parentIndex: number): number {
+    return parentIndex * 2 + 1;
+  }
+  // O(1)
+  private getRightChildIndex(parentIndex: number): number {
+    return parentIndex * 2 + 2;
+  }
+  // O(1)
+  private getParentIndex(childIndex: number): number {
+    return Math.floor((childIndex - 1) / 2);
+  }
+
+  /**
+   * Returns true if a is less than b, false otherwise
+   * @param {number} a
+   * @param {number} b
+   */
+  private less(a: number, b: number) {
+    return this.compare(this.heap[a], this.heap[b]) < 0;
+  }
+}
+
+export default BinaryHeap;
@@ -0,0 +1,162 @@
+import Queue from "./queue";
+
+interface PendingEnqueue<T> {
+  element: T;
+  resolve: () => void;
+}
+
+/*******************************************************************************
+ * A queue with a fixed capacity where producers wait for room instead of
+ * losing elements. enqueue() returns a promise that resolves once the element
+ * is in the queue, so a producer that awaits it can never run ahead of its
+ * consumers by more than the capacity.
+ *
+ * Waiting producers are kept in a queue of their own and moved in, in the
+ * order they enqueued, as soon as dequeue() or clear() makes room.
+ *
+ * For a queue that drops or rejects elements instead, see ./bounded-queue.ts.
+ * For an awaitable dequeue() as well, see ./async-queue.ts.
+ *
+ * enqueue(element) - O(1)
+ * dequeue() - O(1)
+ ******************************************************************************/
+
+class BlockingBoundedQueue<T> implements Iterable<T> {
+  private items: Queue<T>;
+  private putters: Queue<PendingEnqueue<T>>; // producers waiting for room
+  private cap: number;
+
+  /**
+   * @param {number} capacity - max number of elements in the queue
+   */
+  constructor(capacity: number) {
+    if (capacity < 1) throw new Error("Capacity must be at least 1");
+
+    this.items = new Queue();
+    this.putters = new Queue();
+    this.cap = capacity;
+  }
+
+  /**************************************************************************
+                                    NICETIES
+    **************************************************************************/
+
+  /**
+   * Returns the size of the Queue, not counting waiting elements - O(1)
+   */
+  size(): number {
+    return this.items.size();
+  }
+
+  /**
+   * Returns the max number of elements the queue holds - O(1)
+   */
+  capacity(): number {
+    return this.cap;
+  }
+
+  /**
+   * Returns true if the queue is empty - false otherwise O(1)
+   */
+  isEmpty(): boolean {
+    return this.items.isEmpty();
+  }
+
+  /**
+   * Returns true if the queue holds capacity elements - O(1)
+   */
+  isFull(): boolean {
+    return this.items.size() >= this.cap;
+  }
+
+  /**
+   * Deletes everything in the queue - O(1)
+   * Waiting elements move in as far as there is room.
+   */
+  clear(): void {
+    this.items.clear();
+    this.admitWaiting();
+  }
+
+  /*****************************************************************************
+                                  INSERTION/DELETION
+  *****************************************************************************/
+
+  /**
+   * Enqueues element to the back of the queue, waiting for room if it is full - O(1)
+   * @param {T} element - element to be enqueued
+   * @returns {Promise<void>} resolves once the element is in the queue
+   */
+  enqueue(element: T): Promise<void> {
+    if (!this.isFull()) {
+      this.items.enqueue(element);
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve) => {
+      this.putters.enqueue({element, resolve});
+    });
+  }
+
+  /**
+   * Dequeues element from the front of the queue - O(1)
+   * @returns {T}
+   * @throws Empty List Error
+   */
+  dequeue(): T {
+    const element = this.items.dequeue();
+    this.admitWaiting();
+
+    return element;
+  }
+
+  /*****************************************************************************
+                                  ACCESSING
+  *****************************************************************************/
+  /**
+   * Peeks at the element at the front of the queue - O(1)
+   * @returns {T} - frontmost element
+   * @throws Empty List error
+   */
+  peekFront(): T {
+    return this.items.peekFront();
+  }
+
+  /**
+   * Peeks at the element at the back of the queue - O(1)
+   * @returns {T} - Backmost element
+   */
+  peekBack(): T | null {
+    return this.items.peekBack();
+  }
+
+  /*****************************************************************************
+                                  SEARCHING
+  *****************************************************************************/
+  /**
+   * Checks if value is in queue, not counting waiting elements - O(n)
+   * @param {T} element  - element to search for
+   * @returns {boolean}
+   */
+  contains(element: T): boolean {
+    return this.items.contains(element);
+  }
+
+  /*****************************************************************************
+                                  HELPERS
+  *****************************************************************************/
+  [Symbol.iterator](): Iterator<T> {
+    return this.items[Symbol.iterator]();
+  }
+
+  // moves waiting elements into the queue, in the order they were enqueued, while there is room
+  private admitWaiting(): void {
+    while (!this.isFull() && !this.putters.isEmpty()) {
+      const putter = this.putters.dequeue();
+      this.items.enqueue(putter.element);
+      putter.resolve();
+    }
+  }
+}
+
+export default BlockingBoundedQueue;
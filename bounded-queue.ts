@@ -0,0 +1,172 @@
+import Queue from "./queue";
+
+/**
+ * What a BoundedQueue does when enqueueing onto a full queue
+ * throw - throws an error and keeps the queue as is
+ * reject - doesn't enqueue the element and returns false
+ * dropOldest - drops the front element to make room for the new one
+ * dropNewest - drops the new element, the queue stays as is
+ *
+ * To wait for room instead, use ./blocking-bounded-queue.ts
+ */
+export type QueueOverflowPolicy =
+  "throw" | "reject" | "dropOldest" | "dropNewest";
+
+/*******************************************************************************
+ * A queue with a fixed capacity and an explicit choice of what happens when it
+ * is full. Unlike the CircularBuffer, which silently overwrites its oldest
+ * element, every element the queue loses is passed to the onDrop callback, so
+ * lost data can be counted and logged.
+ *
+ * enqueue(element) - O(1)
+ * dequeue() - O(1)
+ ******************************************************************************/
+
+class BoundedQueue<T> implements Iterable<T> {
+  private items: Queue<T>;
+  private cap: number;
+  private overflowPolicy: QueueOverflowPolicy;
+  private onDrop: ((element: T) => void) | undefined;
+
+  /**
+   * @param {number} capacity - max number of elements in the queue
+   * @param {QueueOverflowPolicy} overflowPolicy - optional - defaults to "throw"
+   * @param {function(T): void} onDrop - optional - called with every element that is dropped or rejected
+   */
+  constructor(
+    capacity: number,
+    overflowPolicy?: QueueOverflowPolicy,
+    onDrop?: (element: T) => void,
+  ) {
+    if (capacity < 1) throw new Error("Capacity must be at least 1");
+
+    this.items = new Queue();
+    this.cap = capacity;
+    this.overflowPolicy = overflowPolicy || "throw";
+    this.onDrop = onDrop;
+  }
+
+  /**************************************************************************
+                                    NICETIES
+    **************************************************************************/
+
+  /**
+   * Returns the size of the Queue - O(1)
+   */
+  size(): number {
+    return this.items.size();
+  }
+
+  /**
+   * Returns the max number of elements the queue holds - O(1)
+   */
+  capacity(): number {
+    return this.cap;
+  }
+
+  /**
+   * Returns ture if the queue is empty - false otherwise O(1)
+   */
+  isEmpty(): boolean {
+    return this.items.isEmpty();
+  }
+
+  /**
+   * Returns true if the queue holds capacity elements - O(1)
+   */
+  isFull(): boolean {
+    return this.items.size() >= this.cap;
+  }
+
+  /**
+   * Deletes everything in the queue - O(1)
+   */
+  clear(): void {
+    this.items.clear();
+  }
+
+  /*****************************************************************************
+                                  INSERTION/DELETION
+  *****************************************************************************/
+
+  /**
+   * Enqueues element to the back of the queue - O(1)
+   * If the queue is full, the overflow policy decides what happens.
+   * @param {T} element - element to be enqueued
+   * @returns {boolean} true if the element was enqueued, false if it was dropped or rejected
+   * @throws Queue Full error if the queue is full and the policy is "throw"
+   */
+  enqueue(element: T): boolean {
+    if (!this.isFull()) {
+      this.items.enqueue(element);
+      return true;
+    }
+
+    switch (this.overflowPolicy) {
+      case "throw":
+        throw new Error("Queue is Full");
+      case "reject":
+      case "dropNewest":
+        this.drop(element);
+        return false;
+      case "dropOldest":
+        this.drop(this.items.dequeue());
+        this.items.enqueue(element);
+        return true;
+    }
+  }
+
+  /**
+   * Dequeues element from the front of the queue - O(1)
+   * @returns {T}
+   * @throws Empty List Error
+   */
+  dequeue(): T {
+    return this.items.dequeue();
+  }
+
+  /*****************************************************************************
+                                  ACCESSING
+  *****************************************************************************/
+  /**
+   * Peeks at the element at the front of the queue - O(1)
+   * @returns {T} - frontmost element
+   * @throws Empty List error
+   */
+  peekFront(): T {
+    return this.items.peekFront();
+  }
+
+  /**
+   * Peeks at the element at the back of the queue - O(1)
+   * @returns {T} - Backmost element
+   */
+  peekBack(): T | null {
+    return this.items.peekBack();
+  }
+
+  /*****************************************************************************
+                                  SEARCHING
+  *****************************************************************************/
+  /**
+   * Checks if value is in queue - O(n)
+   * @param {T} element  - element to search for
+   * @returns {boolean}
+   */
+  contains(element: T): boolean {
+    return this.items.contains(element);
+  }
+
+  /*****************************************************************************
+                                  HELPERS
+  *****************************************************************************/
+  [Symbol.iterator](): Iterator<T> {
+    return this.items[Symbol.iterator]();
+  }
+
+  private drop(element: T): void {
+    if (this.onDrop) this.onDrop(element);
+  }
+}
+
+export default BoundedQueue;
@@ -0,0 +1,172 @@
+import {EqualsFunction, defaultEquals} from "./utils";
+
+/**
+ * What a BoundedStack does when pushing onto a full stack
+ * throw - throws an error and keeps the stack as is
+ * dropOldest - drops the bottom element to make room for the new one
+ * reject - doesn't push the element and returns false
+ */
+export type StackOverflowPolicy = "throw" | "dropOldest" | "reject";
+
+/*******************************************************************************
+ * A stack with a fixed capacity, backed by a single array that is allocated up
+ * front. Pushing never allocates, so memory use is capped at capacity elements.
+ *
+ * The array is used as a ring: bottom is the index of the oldest element and the
+ * stack grows to the right of it, wrapping around at the end of the array. That
+ * way dropping the oldest element is O(1) as well.
+ *
+ * push(element) - O(1)
+ * pop() - O(1)
+ * peek() - O(1)
+ ******************************************************************************/
+
+class BoundedStack<T> implements Iterable<T> {
+  private items: Array<T | undefined>;
+  private cap: number;
+  private sz: number;
+  private bottom: number; // index of the oldest element
+  private overflowPolicy: StackOverflowPolicy;
+
+  constructor(capacity: number, overflowPolicy: StackOverflowPolicy = "throw") {
+    if (capacity < 1) throw new Error("Capacity must be at least 1");
+
+    this.cap = capacity;
+    this.items = new Array(capacity);
+    this.sz = 0;
+    this.bottom = 0;
+    this.overflowPolicy = overflowPolicy;
+  }
+
+  /**************************************************************************
+                                    NICETIES
+    **************************************************************************/
+  /**
+   * Returns size of the Stack O(1)
+   * @returns number
+   */
+  size(): number {
+    return this.sz;
+  }
+
+  /**
+   * Returns the max number of elements the stack holds O(1)
+   * @returns number
+   */
+  capacity(): number {
+    return this.cap;
+  }
+
+  /**
+   * Returns true is stack is Empty O(1)
+   * @return boolean
+   */
+  isEmpty(): boolean {
+    return this.sz === 0;
+  }
+
+  /**
+   * Returns true if the stack holds capacity elements O(1)
+   * @return boolean
+   */
+  isFull(): boolean {
+    return this.sz === this.cap;
+  }
+
+  /**
+   * Deletes everyting in the stack O(capacity)
+   * @returns {void}
+   */
+  clear(): void {
+    this.items = new Array(this.cap);
+    this.sz = 0;
+    this.bottom = 0;
+  }
+
+  /**
+   * Pushes an Element into the stack O(1)
+   * If the stack is full, the overflow policy decides what happens.
+   * @param {T} - value to add to the stack
+   * @returns {boolean} true if the element was pushed, false if it was rejected
+   * @throws Stack Overflow error if the stack is full and the policy is "throw"
+   */
+  push(element: T): boolean {
+    if (this.isFull()) {
+      if (this.overflowPolicy === "throw") throw new Error("Stack Overflow");
+      if (this.overflowPolicy === "reject") return false;
+
+      //dropOldest - the new element takes the slot of the bottom element
+      this.items[this.bottom] = element;
+      this.bottom = (this.bottom + 1) % this.cap;
+      return true;
+    }
+
+    this.items[this.indexOf(this.sz)] = element;
+    this.sz += 1;
+
+    return true;
+  }
+
+  /**
+   * Pops the Element from the top of the stack O(1)
+   * @returns {T} - removed value from the stack
+   */
+  pop(): T {
+    if (this.isEmpty()) throw new Error("Empty Error");
+
+    const top = this.indexOf(this.sz - 1);
+    const element = this.items[top] as T;
+    this.items[top] = undefined; // we don't want to hold on to popped elements
+    this.sz -= 1;
+
+    return element;
+  }
+
+  /**
+   * Peeks the top of the stack O(1)
+   * @returns {T} the value of the top
+   */
+  peek(): T {
+    if (this.isEmpty()) throw new Error("Stack is Empty, Can't Peek!");
+
+    return this.items[this.indexOf(this.sz - 1)] as T;
+  }
+
+  /**
+   * Checks if the first instance of the provided value is found in the stack O(n)
+   * Equals function must be supplied for non-primitive values.
+   * @param {T} - value to be checked
+   * @param {EqualsFunction<T>} equalsFunction - optional
+   * @returns boolean
+   */
+  contains(element: T, equalsFunction?: EqualsFunction<T>): boolean {
+    const equalsF = equalsFunction || defaultEquals;
+
+    for (const val of this) {
+      if (equalsF(val, element)) return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Returns the elements from bottom to top O(n)
+   * @returns {T[]}
+   */
+  toArray(): T[] {
+    return Array.from(this);
+  }
+
+  *[Symbol.iterator](): Iterator<T> {
+    for (let i = 0; i < this.sz; i++) {
+      yield this.items[this.indexOf(i)] as T;
+    }
+  }
+
+  // O(1) - maps the i-th element from the bottom to its index in the array
+  private indexOf(i: number): number {
+    return (this.bottom + i) % this.cap;
+  }
+}
+
+export default BoundedStack;
@@ -1,22 +1,45 @@
 import * as utils from "./utils";
 
-class CircularBuffer<T> {
+/**
+ * What a CircularBuffer does when enqueueing into a full buffer
+ * overwrite - overwrites the oldest element
+ * reject - doesn't enqueue the element and returns false
+ * throw - throws an error and keeps the buffer as is
+ */
+export type CircularBufferOverflow = "overwrite" | "reject" | "throw";
+
+export interface CircularBufferOptions<T> {
+  overflow?: CircularBufferOverflow; // defaults to "overwrite"
+  onOverwrite?: (evicted: T) => void; // called with every element that gets overwritten
+}
+
+class CircularBuffer<T> implements Iterable<T> {
   private list: T[];
   private sz: number;
-  private capacity: number;
+  private cap: number;
+  private overflow: CircularBufferOverflow;
+  private onOverwrite: ((evicted: T) => void) | undefined;
 
   private readIndex: number;
   private writeIndex: number;
 
   private equalsF: utils.EqualsFunction<T>;
 
-  constructor(capacity: number, equalsFunction?: utils.EqualsFunction<T>) {
-    this.capacity = capacity;
+  constructor(
+    capacity: number,
+    equalsFunction?: utils.EqualsFunction<T>,
+    options: CircularBufferOptions<T> = {},
+  ) {
+    if (capacity < 1) throw new Error("Capacity must be at least 1");
+
+    this.cap = capacity;
     this.list = new Array(capacity);
     this.sz = 0;
     this.readIndex = 0;
     this.writeIndex = 0;
     this.equalsF = equalsFunction || utils.defaultEquals; //If the Equals function is provided we use that OR we use the default Equal Function.
+    this.overflow = options.overflow || "overwrite";
+    this.onOverwrite = options.onOverwrite;
   }
 
   /**************************************************************************
@@ -29,6 +52,13 @@ class CircularBuffer<T> {
     return this.sz;
   }
 
+  /**
+   * Returns the max number of elements the buffer holds - O(1)
+   */
+  get capacity(): number {
+    return this.cap;
+  }
+
   /**
    * Returns true if the circular buffer is empty - false otherwise O(1)
    * @returns {boolean}
@@ -37,13 +67,23 @@ class CircularBuffer<T> {
     return this.size() === 0;
   }
 
+  /**
+   * Returns true if the circular buffer holds capacity elements - false otherwise O(1)
+   * @returns {boolean}
+   */
+  isFull(): boolean {
+    return this.size() === this.cap;
+  }
+
   /**
    * Deletes all elements in the buffer and just creates a new one with the capacity provided - O(capacity)
    * @returns {void}
    */
   clear(): void {
-    this.list = new Array(this.capacity);
+    this.list = new Array(this.cap);
     this.sz = 0;
+    this.readIndex = 0;
+    this.writeIndex = 0;
   }
 
   /*****************************************************************************
@@ -51,25 +91,37 @@ class CircularBuffer<T> {
   *****************************************************************************/
   /**
    * Enqueues element into queue - O(1)
+   * If the buffer is full, the overflow mode decides what happens.
    * @param {T} element - element to be enqueued
+   * @returns {boolean} true if the element was enqueued, false if it was rejected
+   * @throws Buffer Full error if the buffer is full and the overflow mode is "throw"
    */
-  enqueue(element: T): void {
+  enqueue(element: T): boolean {
+    //if the buffer is full, read and write index are in the same position and we would overwrite the oldest element.
+    const elementIsOverWritten = this.isFull();
+
+    if (elementIsOverWritten) {
+      if (this.overflow === "throw") throw new Error("Buffer is Full");
+      if (this.overflow === "reject") return false;
+
+      //we tell the caller about the element we are about to lose
+      if (this.onOverwrite) this.onOverwrite(this.list[this.readIndex]);
+    }
+
     //we will add the element in the current write Index
     this.list[this.writeIndex] = element;
 
-    //if read and write index are in the same position, then we set it to true.
-    const elementIsOverWritten =
-      this.sz !== 0 && this.readIndex === this.writeIndex;
-
     //elementIsOverwritten is true (which means read and write are on the same index, we will incrment read index)
     if (elementIsOverWritten) {
-      this.readIndex = (this.readIndex + 1) % this.capacity;
+      this.readIndex = (this.readIndex + 1) % this.cap;
+    } else {
+      this.sz += 1; //the size only grows if we didn't overwrite anything
     }
 
     //finally we will increment the write index
-    this.writeIndex = (this.writeIndex + 1) % this.capacity;
+    this.writeIndex = (this.writeIndex + 1) % this.cap;
 
-    this.sz += 1;
+    return true;
   }
 
   /**
@@ -81,13 +133,55 @@ class CircularBuffer<T> {
 
     const removedVal = this.list[this.readIndex]; //Get the value to remove
 
-    this.readIndex = (this.readIndex - 1) % this.capacity; // increment read index
+    this.readIndex = (this.readIndex + 1) % this.cap; // increment read index
 
     this.sz -= 1; // Decrease the size
 
     return removedVal; // Return the remove val.
   }
 
+  /**
+   * Enqueues every element of the iterable in order - O(k)
+   * @param {Iterable<T>} elements - elements to be enqueued
+   * @returns {number} number of elements that were enqueued, rejected ones don't count
+   * @throws Buffer Full error if the buffer gets full and the overflow mode is "throw"
+   */
+  enqueueMany(elements: Iterable<T>): number {
+    let enqueued = 0;
+
+    for (const element of elements) {
+      if (this.enqueue(element)) enqueued += 1;
+    }
+
+    return enqueued;
+  }
+
+  /**
+   * Dequeues up to n elements, oldest first - O(n)
+   * @param {number} n - max number of elements to dequeue
+   * @returns {T[]}
+   */
+  dequeueMany(n: number): T[] {
+    const dequeued: T[] = [];
+
+    while (dequeued.length < n && !this.isEmpty()) {
+      dequeued.push(this.dequeue()!);
+    }
+
+    return dequeued;
+  }
+
+  /**
+   * Dequeues elements one at a time as they are pulled, until the buffer is empty
+   * Elements enqueued while draining are drained as well.
+   * @returns {Generator<T>}
+   */
+  *drain(): Generator<T> {
+    while (!this.isEmpty()) {
+      yield this.dequeue()!;
+    }
+  }
+
   /*****************************************************************************
                                   ACCESSING
   *****************************************************************************/
@@ -109,11 +203,32 @@ class CircularBuffer<T> {
     if (this.isEmpty()) return null; //return null if the List is empty
 
     let i = this.writeIndex - 1; //Since The last element we wrote is one index behind the Write, so we get its value.
-    if (i < 0) i = this.capacity - 1; // if i is at 0 index then we go around and set the i to the last element of the buffer
+    if (i < 0) i = this.cap - 1; // if i is at 0 index then we go around and set the i to the last element of the buffer
 
     return this.list[i];
   }
 
+  /**
+   * Gets the element at index i, counting from the oldest element - O(1)
+   * Negative indices count back from the newest element, so -1 is the newest.
+   * @param {number} i - index of the element
+   * @returns {T | null} null if the index is out of bounds
+   */
+  at(i: number): T | null {
+    if (i < 0) i += this.sz; //-1 is the newest element, which is at index size - 1
+    if (i < 0 || i >= this.sz) return null;
+
+    return this.list[this.indexOf(i)];
+  }
+
+  /**
+   * Returns the elements from oldest to newest - O(n)
+   * @returns {T[]}
+   */
+  toArray(): T[] {
+    return Array.from(this);
+  }
+
   /*****************************************************************************
                                   CONTAINS 
   *****************************************************************************/
@@ -123,10 +238,29 @@ class CircularBuffer<T> {
    * @returns {boolean}
    */
   contains(element: T): boolean {
-    // we run the 'some' function on the array and pass it a equelsF function which will compare each of the value of the List with the provided Element.
-    return this.list.some((val: T) => {
-      return this.equalsF(val, element);
-    });
+    //we only look at the live elements, the other slots may hold stale elements that were dequeued or overwritten.
+    for (const val of this) {
+      if (this.equalsF(val, element)) return true;
+    }
+
+    return false;
+  }
+
+  /*****************************************************************************
+                                  HELPERS
+  *****************************************************************************/
+  /**
+   * Iterates the elements from oldest to newest
+   */
+  *[Symbol.iterator](): Iterator<T> {
+    for (let i = 0; i < this.sz; i++) {
+      yield this.list[this.indexOf(i)];
+    }
+  }
+
+  // O(1) - maps the i-th oldest element to its index in the backing array
+  private indexOf(i: number): number {
+    return (this.readIndex + i) % this.cap;
   }
 }
 
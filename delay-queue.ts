@@ -0,0 +1,237 @@
+import MinIndexedDHeap from "./min-indexed-d-heap";
+
+const MAX_TIMEOUT = 0x7fffffff; // longest delay setTimeout takes, longer ones fire after 1ms
+
+/**
+ * Handle to a scheduled item, used to cancel it
+ */
+export interface DelayHandle {
+  readonly dueAt: number;
+}
+
+interface Handle extends DelayHandle {
+  readonly slot: number; // slot the item was stored in
+}
+
+interface Entry<T> {
+  item: T;
+  handle: Handle;
+}
+
+/*******************************************************************************
+ * A queue of items that become ready at a due time, for retries, timeouts and
+ * other scheduled work.
+ *
+ * The due times live in an indexed heap, keyed by a slot in the entries array.
+ * The indexed heap is what lets us cancel an item in logarithmic time, instead
+ * of searching the heap for it. Slots of items that left the queue are reused.
+ *
+ * The clock is injectable, so tests can move time forward by hand. pollReady()
+ * and nextDueIn() never touch timers. Only run() uses setTimeout, to call back
+ * with items as they become ready.
+ *
+ * enqueue(item, delay) / enqueueAt(item, dueAt) - O(log(n))
+ * cancel(handle) - O(log(n))
+ * pollReady() - O(klog(n)) where k is the number of ready items
+ * nextDueIn() - O(1)
+ ******************************************************************************/
+
+class DelayQueue<T> {
+  private heap: MinIndexedDHeap<number>; // maps slots -> due times
+  private entries: Array<Entry<T> | null>; // maps slots -> scheduled items
+  private freeSlots: number[];
+  private clock: () => number;
+
+  private onReady: ((item: T) => void) | null; // callback of the run() loop
+  private timer: ReturnType<typeof setTimeout> | null;
+
+  /**
+   * @param {function(): number} clock - optional - returns the current time in ms, defaults to Date.now
+   */
+  constructor(clock?: () => number) {
+    this.heap = new MinIndexedDHeap(4); // a 4-ary heap is shallower, which makes adds cheaper
+    this.entries = [];
+    this.freeSlots = [];
+    this.clock = clock || Date.now;
+
+    this.onReady = null;
+    this.timer = null;
+  }
+
+  /*****************************************************************************
+                                  NICETIES
+  *****************************************************************************/
+  /**
+   * Returns the number of scheduled items - O(1)
+   * @returns {number}
+   */
+  size(): number {
+    return this.heap.size();
+  }
+
+  /**
+   * Returns true if nothing is scheduled, false otherwise - O(1)
+   * @returns {boolean}
+   */
+  isEmpty(): boolean {
+    return this.heap.isEmpty();
+  }
+
+  /*****************************************************************************
+                                  INSERTION/DELETION
+  *****************************************************************************/
+  /**
+   * Schedules item to be ready delay ms from now - O(log(n))
+   * @param {T} item
+   * @param {number} delay - in ms
+   * @returns {DelayHandle}
+   */
+  enqueue(item: T, delay: number): DelayHandle {
+    return this.enqueueAt(item, this.clock() + delay);
+  }
+
+  /**
+   * Schedules item to be ready at dueAt - O(log(n))
+   * @param {T} item
+   * @param {number} dueAt - time as returned by the clock
+   * @returns {DelayHandle}
+   */
+  enqueueAt(item: T, dueAt: number): DelayHandle {
+    const slot =
+      this.freeSlots.length > 0 ? this.freeSlots.pop()! : this.entries.length;
+    const handle: Handle = {dueAt, slot};
+
+    this.entries[slot] = {item, handle};
+    this.heap.add(slot, dueAt);
+    this.reschedule();
+
+    return handle;
+  }
+
+  /**
+   * Cancels a scheduled item. Returns false if it already left the queue - O(log(n))
+   * @param {DelayHandle} handle
+   * @returns {boolean}
+   */
+  cancel(handle: DelayHandle): boolean {
+    const {slot} = handle as Handle;
+    //the slot may be free or reused by now, in which case it holds some other handle
+    if (this.entries[slot]?.handle !== handle) return false;
+
+    this.heap.deleteKey(slot);
+    this.release(slot);
+    this.reschedule();
+
+    return true;
+  }
+
+  /**
+   * Removes and returns every item that is due, earliest first - O(klog(n))
+   * @param {number} now - optional - defaults to the clock's time
+   * @returns {T[]}
+   */
+  pollReady(now: number = this.clock()): T[] {
+    const ready: T[] = [];
+
+    while (this.nextDueIn(now) === 0) {
+      ready.push(this.pollNext());
+    }
+
+    return ready;
+  }
+
+  /**
+   * Deletes everything in the queue - O(1)
+   * @returns {void}
+   */
+  clear(): void {
+    this.heap.clear();
+    this.entries = [];
+    this.freeSlots = [];
+    this.reschedule();
+  }
+
+  /*****************************************************************************
+                                  ACCESSING
+  *****************************************************************************/
+  /**
+   * Returns the ms until the next item is due, 0 if one is overdue - O(1)
+   * @param {number} now - optional - defaults to the clock's time
+   * @returns {number | null} null if nothing is scheduled
+   */
+  nextDueIn(now: number = this.clock()): number | null {
+    const dueAt = this.heap.peek();
+    if (dueAt === null) return null;
+
+    return Math.max(0, dueAt - now);
+  }
+
+  /*****************************************************************************
+                                  RUN LOOP
+  *****************************************************************************/
+  /**
+   * Calls onReady with every item as it becomes due, until stop() is called
+   * Uses setTimeout to wait for the next due item.
+   * @param {function(T): void} onReady
+   * @returns {void}
+   */
+  run(onReady: (item: T) => void): void {
+    this.onReady = onReady;
+    this.reschedule();
+  }
+
+  /**
+   * Stops the run() loop. Scheduled items stay in the queue
+   * @returns {void}
+   */
+  stop(): void {
+    this.onReady = null;
+    this.reschedule();
+  }
+
+  /*****************************************************************************
+                                  HELPERS
+  *****************************************************************************/
+  // O(1) - sets the timer for the earliest item, if the run loop is on
+  private reschedule(): void {
+    if (this.timer !== null) clearTimeout(this.timer);
+    this.timer = null;
+
+    const dueIn = this.nextDueIn();
+    if (!this.onReady || dueIn === null) return;
+
+    //an item further out than MAX_TIMEOUT wakes us up early, finds nothing due and we wait again
+    const delay = Math.min(dueIn, MAX_TIMEOUT);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+
+      //we take one item at a time, since a callback can stop the loop or cancel other items
+      const now = this.clock();
+      while (this.onReady && this.nextDueIn(now) === 0) {
+        this.onReady(this.pollNext());
+      }
+
+      //the callbacks may have started a new timer already
+      if (this.timer === null) this.reschedule();
+    }, delay);
+  }
+
+  // O(log(n)) - removes and returns the earliest item
+  private pollNext(): T {
+    const slot = this.heap.peekKey()!;
+    this.heap.poll();
+
+    return this.release(slot);
+  }
+
+  // O(1) - frees up the slot of an item that left the queue and returns the item
+  private release(slot: number): T {
+    const {item} = this.entries[slot]!;
+    this.entries[slot] = null;
+    this.freeSlots.push(slot);
+
+    return item;
+  }
+}
+
+export default DelayQueue;
@@ -0,0 +1,137 @@
+import LinkedList from "./linked-list";
+import {EqualsFunction} from "./utils";
+
+/*******************************************************************************
+ * A double ended queue. Elements can be added and removed at both ends, so it
+ * can be used as both a queue and a stack.
+ *
+ * pushFront(element) / pushBack(element) - O(1)
+ * popFront() / popBack() - O(1)
+ * peekFront() / peekBack() - O(1)
+ ******************************************************************************/
+
+class Deque<T> implements Iterable<T> {
+  private list: LinkedList<T>;
+
+  constructor(equalsFunction?: EqualsFunction<T>) {
+    if (equalsFunction) {
+      this.list = new LinkedList(equalsFunction);
+    } else {
+      this.list = new LinkedList();
+    }
+  }
+
+  /**************************************************************************
+                                    NICETIES
+    **************************************************************************/
+
+  /**
+   * Returns the size of the Deque - O(1)
+   */
+  size(): number {
+    return this.list.size();
+  }
+
+  /**
+   * Returns ture if the deque is empty - false otherwise O(1)
+   */
+  isEmpty(): boolean {
+    return this.list.isEmpty();
+  }
+
+  /**
+   * Deletes everything in the deque - O(1)
+   */
+  clear(): void {
+    this.list.clear();
+  }
+
+  /*****************************************************************************
+                                  INSERTION/DELETION
+  *****************************************************************************/
+
+  /**
+   * Adds element to the front of the deque - O(1)
+   * @param {T} element - element to be added
+   */
+  pushFront(element: T): void {
+    this.list.addFront(element);
+  }
+
+  /**
+   * Adds element to the back of the deque - O(1)
+   * @param {T} element - element to be added
+   */
+  pushBack(element: T): void {
+    this.list.addBack(element);
+  }
+
+  /**
+   * Removes the element at the front of the deque - O(1)
+   * @returns {T} - removed element
+   * @throws Empty List Error
+   */
+  popFront(): T {
+    return this.list.removeFront();
+  }
+
+  /**
+   * Removes the element at the back of the deque - O(1)
+   * @returns {T} - removed element
+   * @throws Empty List Error
+   */
+  popBack(): T {
+    return this.list.removeBack();
+  }
+
+  /*****************************************************************************
+                                  ACCESSING
+  *****************************************************************************/
+  /**
+   * Peeks at the element at the front of the deque - O(1)
+   * @returns {T} - frontmost element
+   * @throws Empty List error
+   */
+  peekFront(): T {
+    return this.list.peekFront();
+  }
+
+  /**
+   * Peeks at the element at the back of the deque - O(1)
+   * @returns {T} - backmost element
+   * @throws Empty List error
+   */
+  peekBack(): T {
+    return this.list.peekBack();
+  }
+
+  /*****************************************************************************
+                                  SEARCHING
+  *****************************************************************************/
+  /**
+   * Checks if value is in deque - O(n)
+   * @param {T} element  - element to search for
+   * @param {EqualsFunction<T>} equalsFunction - optional - defaults to the deque's equals function
+   * @returns {boolean}
+   */
+  contains(element: T, equalsFunction?: EqualsFunction<T>): boolean {
+    return this.list.contains(element, equalsFunction);
+  }
+
+  /*****************************************************************************
+                                  HELPERS
+  *****************************************************************************/
+  [Symbol.iterator](): Iterator<T> {
+    return this.list[Symbol.iterator]();
+  }
+
+  /**
+   * Iterates the deque from back to front
+   * @returns {IterableIterator<T>}
+   */
+  reverseIterator(): IterableIterator<T> {
+    return this.list.reverseIterator();
+  }
+}
+
+export default Deque;
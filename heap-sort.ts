@@ -0,0 +1,37 @@
+import MinBinaryHeap from "./min-binary-heap";
+import * as utils from "./utils";
+
+/*******************************************************************************
+ * Heapsort: build a heap out of the elements, then take the smallest one out
+ * until the heap is empty.
+ *
+ * Building the heap is MinBinaryHeap's O(n) heapify. Every poll sinks the last
+ * element from the root, O(log(n)). Unlike merge sort, heapsort is not stable:
+ * equal elements may come out in any order.
+ *
+ * heapSort(elements) - O(nlog(n))
+ *
+ * For more info, refer to https://en.wikipedia.org/wiki/Heapsort
+ ******************************************************************************/
+
+/**
+ * Returns the elements sorted in ascending order - O(nlog(n))
+ * @param {Iterable<T>} elements
+ * @param {CompareFunction<T>} compareFunction - optional - defaults to utils.defaultCompare
+ * @returns {T[]}
+ */
+function heapSort<T>(
+  elements: Iterable<T>,
+  compareFunction?: utils.CompareFunction<T>,
+): T[] {
+  const heap = new MinBinaryHeap(elements, compareFunction);
+  const sorted: T[] = [];
+
+  while (!heap.isEmpty()) {
+    sorted.push(heap.poll()!);
+  }
+
+  return sorted;
+}
+
+export default heapSort;
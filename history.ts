@@ -0,0 +1,335 @@
+import BoundedStack from "./bounded-stack";
+import Stack from "./stack";
+
+/*******************************************************************************
+ * Undo/redo history on top of two stacks. Every undoable step is pushed on the
+ * undo stack. Undoing a step moves it to the redo stack, redoing it moves it
+ * back. Recording a new step clears the redo stack, since the steps on it don't
+ * follow from the new present anymore.
+ *
+ * There are two flavours:
+ * CommandHistory - steps are commands that know how to undo themselves
+ * SnapshotHistory - steps are copies of the whole state
+ *
+ * Steps recorded between beginGroup() and endGroup() are undone and redone as
+ * one. With a max depth, the oldest steps are forgotten once there are more.
+ *
+ * execute() / undo() / redo() - O(1) plus the work of the step itself
+ ******************************************************************************/
+
+/**
+ * A reversible action for CommandHistory. If redo is left out, execute is used
+ * to redo the command.
+ */
+export interface Command {
+  execute(): void;
+  undo(): void;
+  redo?(): void;
+}
+
+/**
+ * The stacks and grouping bookkeeping shared by both histories.
+ */
+class UndoRedoStacks<TEntry> {
+  private undoStack: Stack<TEntry> | BoundedStack<TEntry>;
+  private redoStack: Stack<TEntry>;
+  groupDepth: number; // number of beginGroup() calls without their endGroup()
+
+  constructor(maxDepth?: number) {
+    //the bounded stack forgets the oldest step once we have more than maxDepth
+    this.undoStack =
+      maxDepth === undefined
+        ? new Stack()
+        : new BoundedStack(maxDepth, "dropOldest");
+    this.redoStack = new Stack();
+    this.groupDepth = 0;
+  }
+
+  canUndo(): boolean {
+    return this.groupDepth === 0 && !this.undoStack.isEmpty();
+  }
+
+  canRedo(): boolean {
+    return this.groupDepth === 0 && !this.redoStack.isEmpty();
+  }
+
+  /**
+   * Records a new step, which makes the undone steps unreachable
+   */
+  record(entry: TEntry): void {
+    this.undoStack.push(entry);
+    this.redoStack.clear();
+  }
+
+  popUndo(): TEntry {
+    return this.undoStack.pop();
+  }
+
+  pushUndo(entry: TEntry): void {
+    this.undoStack.push(entry);
+  }
+
+  popRedo(): TEntry {
+    return this.redoStack.pop();
+  }
+
+  pushRedo(entry: TEntry): void {
+    this.redoStack.push(entry);
+  }
+
+  beginGroup(): void {
+    this.groupDepth += 1;
+  }
+
+  /**
+   * Closes a group and returns true if it was the outermost one
+   */
+  endGroup(): boolean {
+    if (this.groupDepth === 0) throw new Error("No group to end");
+
+    this.groupDepth -= 1;
+    return this.groupDepth === 0;
+  }
+
+  clear(): void {
+    this.undoStack.clear();
+    this.redoStack.clear();
+    this.groupDepth = 0;
+  }
+
+  checkNoOpenGroup(): void {
+    if (this.groupDepth > 0) {
+      throw new Error("Can't undo or redo while a group is open");
+    }
+  }
+}
+
+export class CommandHistory {
+  private stacks: UndoRedoStacks<Command[]>;
+  private group: Command[]; // commands of the open group
+
+  constructor(maxDepth?: number) {
+    this.stacks = new UndoRedoStacks(maxDepth);
+    this.group = [];
+  }
+
+  /*****************************************************************************
+                                  INSPECTION
+  *****************************************************************************/
+  /**
+   * Returns true if there is a step to undo - O(1)
+   * @returns {boolean}
+   */
+  canUndo(): boolean {
+    return this.stacks.canUndo();
+  }
+
+  /**
+   * Returns true if there is a step to redo - O(1)
+   * @returns {boolean}
+   */
+  canRedo(): boolean {
+    return this.stacks.canRedo();
+  }
+
+  /*****************************************************************************
+                                  HISTORY
+  *****************************************************************************/
+  /**
+   * Executes the command and records it as a step, or as part of the open group - O(1)
+   * @param {Command} command
+   * @returns {void}
+   */
+  execute(command: Command): void {
+    command.execute();
+
+    if (this.stacks.groupDepth > 0) this.group.push(command);
+    else this.stacks.record([command]);
+  }
+
+  /**
+   * Undoes the last step. Returns false if there was nothing to undo - O(1)
+   * @returns {boolean}
+   * @throws if a group is open
+   */
+  undo(): boolean {
+    this.stacks.checkNoOpenGroup();
+    if (!this.stacks.canUndo()) return false;
+
+    const commands = this.stacks.popUndo();
+    //the commands of a group are undone in the opposite order they were executed in
+    for (let i = commands.length - 1; i >= 0; i--) {
+      commands[i].undo();
+    }
+    this.stacks.pushRedo(commands);
+
+    return true;
+  }
+
+  /**
+   * Redoes the last undone step. Returns false if there was nothing to redo - O(1)
+   * @returns {boolean}
+   * @throws if a group is open
+   */
+  redo(): boolean {
+    this.stacks.checkNoOpenGroup();
+    if (!this.stacks.canRedo()) return false;
+
+    const commands = this.stacks.popRedo();
+    for (const command of commands) {
+      if (command.redo) command.redo();
+      else command.execute();
+    }
+    this.stacks.pushUndo(commands);
+
+    return true;
+  }
+
+  /**
+   * Starts a group. Commands executed until the matching endGroup() are one step - O(1)
+   * Groups can be nested, the outermost group is the step.
+   * @returns {void}
+   */
+  beginGroup(): void {
+    this.stacks.beginGroup();
+  }
+
+  /**
+   * Ends the open group, recording it as one step if it is the outermost - O(1)
+   * Empty groups are not recorded.
+   * @returns {void}
+   * @throws if no group is open
+   */
+  endGroup(): void {
+    if (!this.stacks.endGroup()) return;
+
+    if (this.group.length > 0) this.stacks.record(this.group);
+    this.group = [];
+  }
+
+  /**
+   * Forgets all steps - O(1)
+   * @returns {void}
+   */
+  clear(): void {
+    this.stacks.clear();
+    this.group = [];
+  }
+}
+
+export class SnapshotHistory<TState> {
+  private stacks: UndoRedoStacks<TState>;
+  private state: TState;
+  private groupRecorded: boolean; // whether the open group already recorded the state before it
+
+  constructor(initialState: TState, maxDepth?: number) {
+    this.stacks = new UndoRedoStacks(maxDepth);
+    this.state = initialState;
+    this.groupRecorded = false;
+  }
+
+  /*****************************************************************************
+                                  INSPECTION
+  *****************************************************************************/
+  /**
+   * Returns the current state - O(1)
+   * @returns {TState}
+   */
+  present(): TState {
+    return this.state;
+  }
+
+  /**
+   * Returns true if there is a step to undo - O(1)
+   * @returns {boolean}
+   */
+  canUndo(): boolean {
+    return this.stacks.canUndo();
+  }
+
+  /**
+   * Returns true if there is a step to redo - O(1)
+   * @returns {boolean}
+   */
+  canRedo(): boolean {
+    return this.stacks.canRedo();
+  }
+
+  /*****************************************************************************
+                                  HISTORY
+  *****************************************************************************/
+  /**
+   * Makes state the present, recording the previous present as a step - O(1)
+   * Inside a group, only the state from before the group is recorded.
+   * @param {TState} state - new state, must not share mutable parts with the old one
+   * @returns {void}
+   */
+  execute(state: TState): void {
+    if (this.stacks.groupDepth === 0) {
+      this.stacks.record(this.state);
+    } else if (!this.groupRecorded) {
+      this.stacks.record(this.state);
+      this.groupRecorded = true;
+    }
+
+    this.state = state;
+  }
+
+  /**
+   * Goes back to the state before the last step. Returns false if there was nothing to undo - O(1)
+   * @returns {boolean}
+   * @throws if a group is open
+   */
+  undo(): boolean {
+    this.stacks.checkNoOpenGroup();
+    if (!this.stacks.canUndo()) return false;
+
+    //the present becomes the next state, and the previous state becomes the present
+    this.stacks.pushRedo(this.state);
+    this.state = this.stacks.popUndo();
+
+    return true;
+  }
+
+  /**
+   * Goes forward to the state before the last undo. Returns false if there was nothing to redo - O(1)
+   * @returns {boolean}
+   * @throws if a group is open
+   */
+  redo(): boolean {
+    this.stacks.checkNoOpenGroup();
+    if (!this.stacks.canRedo()) return false;
+
+    this.stacks.pushUndo(this.state);
+    this.state = this.stacks.popRedo();
+
+    return true;
+  }
+
+  /**
+   * Starts a group. States set until the matching endGroup() are one step - O(1)
+   * Groups can be nested, the outermost group is the step.
+   * @returns {void}
+   */
+  beginGroup(): void {
+    this.stacks.beginGroup();
+  }
+
+  /**
+   * Ends the open group - O(1)
+   * @returns {void}
+   * @throws if no group is open
+   */
+  endGroup(): void {
+    if (this.stacks.endGroup()) this.groupRecorded = false;
+  }
+
+  /**
+   * Forgets all steps, keeping the present - O(1)
+   * @returns {void}
+   */
+  clear(): void {
+    this.stacks.clear();
+    this.groupRecorded = false;
+  }
+}
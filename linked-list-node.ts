@@ -2,10 +2,12 @@ class LinkedListNode<T> {
   val: T;
   next: LinkedListNode<T> | null;
   prev: LinkedListNode<T> | null;
+  owner: import("./utils").Owner | null; // token of the list the node is in, see utils.resolveOwner
 
   constructor(val: T) {
     this.val = val;
     this.next = null;
     this.prev = null;
+    this.owner = null;
   }
 }
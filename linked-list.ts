@@ -1,14 +1,30 @@
+import {ListADT, ListIterator} from "./list-adt";
+import PersistentList from "./persistent-list";
 import * as utils from "./utils";
 
+/**
+ * Opaque handle to a node of a LinkedList. It can be given back to the list that
+ * created it for insertions, removals and moves around that node.
+ *
+ * Using a handle is O(1) as long as its node never moved lists. After concat(),
+ * splitAt() or mergeSorted() the list first has to find out which list owns the
+ * node, which is amortized O(log(n)), see utils.resolveOwner.
+ */
+export interface LinkedListNodeHandle<T> {
+  readonly val: T;
+}
+
 interface List<T> {
   head: LinkedListNode<T>;
   tail: LinkedListNode<T>;
   size: number;
 }
 
-class LinkedList<T> implements Iterable<T> {
+class LinkedList<T> implements ListADT<T> {
   private list: List<T> | undefined;
   private equalsF: utils.EqualsFunction<T> = utils.defaultEquals;
+  private owner: utils.Owner = {forward: null};
+  private modCount = 0; // number of structural changes, lets cursors fail fast
   constructor(equalsFunction?: utils.EqualsFunction<T>) {
     this.list = undefined;
     if (equalsFunction) this.equalsF = equalsFunction;
@@ -39,6 +55,8 @@ class LinkedList<T> implements Iterable<T> {
    */
   addFront(val: T): void {
     const newNode = new LinkedListNode(val);
+    newNode.owner = this.owner;
+    this.modCount += 1;
 
     if (this.list) {
       //if we have a list
@@ -64,6 +82,8 @@ class LinkedList<T> implements Iterable<T> {
    */
   addBack(val: T): void {
     const newNode = new LinkedListNode(val);
+    newNode.owner = this.owner;
+    this.modCount += 1;
 
     if (this.list) {
       this.list.tail.next = newNode;
@@ -106,13 +126,15 @@ class LinkedList<T> implements Iterable<T> {
     }
 
     let curr = this.list.head;
-    for (let j = 0; j < i - 1; i++) {
+    for (let j = 0; j < i - 1; j++) {
       //this loop will take us to the node which is one before the 'i' since we have a condition i-1
       curr = curr.next!;
     }
 
     //create a new node with value
     const newNode = new LinkedListNode(val);
+    newNode.owner = this.owner;
+    this.modCount += 1;
 
     //curr is one before the desired index. so we set its next node's prev to our new node
     curr.next!.prev = newNode;
@@ -183,19 +205,19 @@ class LinkedList<T> implements Iterable<T> {
   indexOf(value: T, equalsFunction?: utils.EqualsFunction<T>): number {
     if (!this.list) return -1; //Linked List is not defined so we return -1 automatically.
 
-    const equalsF = equalsFunction || utils.defaultEquals;
+    const equalsF = equalsFunction || this.equalsF;
 
     let i = 0;
-    let cur = this.list.head;
+    let cur: LinkedListNode<T> | null = this.list.head;
 
     //while current value is not equal to the provided value
-    while (!equalsF(cur.val, value)) {
-      cur = cur.next!;
+    while (cur && !equalsF(cur.val, value)) {
+      cur = cur.next;
       i += 1;
     }
 
-    //while will exit when the current the cur.val === value. we will have the correct i value.
-    return i;
+    //while will exit when the current the cur.val === value, or when we ran past the tail.
+    return cur ? i : -1;
   }
 
   /**
@@ -226,11 +248,13 @@ class LinkedList<T> implements Iterable<T> {
     if (!this.list) throw new Error("Empty Error");
 
     const val = this.list.head.val;
+    this.modCount += 1;
+    this.list.head.owner = null;
     if (this.list.head.next) {
       //if there is a next element in the head
       this.list.head.next.prev = null; // we set the forward node's prev to null
       this.list.head = this.list.head.next; // we set head of the list to the one next to current head
-      this.list.size = -1;
+      this.list.size -= 1;
     } else {
       //if there isn't a next element in the head.
       this.list = undefined;
@@ -247,11 +271,13 @@ class LinkedList<T> implements Iterable<T> {
     if (!this.list) throw new Error("Empty Error");
 
     const val = this.list.tail.val;
+    this.modCount += 1;
+    this.list.tail.owner = null;
     if (this.list.tail.prev) {
       //if there is an node before the tail node
       this.list.tail.prev.next = null; // we set the next value of the node previous then the tail to null
       this.list.tail = this.list.tail.prev;
-      this.list.size = -1;
+      this.list.size -= 1;
     } else {
       //if there isn't a node before the tail.
       this.list = undefined;
@@ -307,7 +333,9 @@ class LinkedList<T> implements Iterable<T> {
     curr.next!.prev = curr.prev;
     //set the next of the previous node to the next node of current
     curr.prev!.next = curr.next;
-    this.list.size = -1;
+    curr.owner = null;
+    this.modCount += 1;
+    this.list.size -= 1;
 
     return curr.val;
   }
@@ -316,10 +344,754 @@ class LinkedList<T> implements Iterable<T> {
    * Deletes all nodes = O(1)
    */
   clear(): void {
+    this.modCount += 1;
     this.list = undefined;
+    //handles to the dropped nodes must no longer be accepted, so we start with a new owner
+    this.owner = {forward: null};
+  }
+
+  /*****************************NODE HANDLES*************************************/
+  /**
+   * Adds a value to the head of the list and returns a handle to its node - O(1)
+   * @param {T} val - value to add to the list
+   * @return {LinkedListNodeHandle<T>}
+   */
+  addFrontNode(val: T): LinkedListNodeHandle<T> {
+    this.addFront(val);
+
+    return this.list!.head;
+  }
+
+  /**
+   * Adds a value to the tail of the list and returns a handle to its node - O(1)
+   * @param {T} val - value to add to the list
+   * @return {LinkedListNodeHandle<T>}
+   */
+  addBackNode(val: T): LinkedListNodeHandle<T> {
+    this.addBack(val);
+
+    return this.list!.tail;
+  }
+
+  /**
+   * Inserts a value right before the node of the handle - amortized O(log(n))
+   * @param {LinkedListNodeHandle<T>} handle - handle of a node in this list
+   * @param {T} val - value to add to the list
+   * @return {LinkedListNodeHandle<T>} handle of the new node
+   * @throws if the handle doesn't belong to this list
+   */
+  insertBefore(
+    handle: LinkedListNodeHandle<T>,
+    val: T,
+  ): LinkedListNodeHandle<T> {
+    const node = this.nodeOf(handle);
+    if (!node.prev) return this.addFrontNode(val);
+
+    const newNode = new LinkedListNode(val);
+    newNode.owner = this.owner;
+    this.linkAfter(node.prev, newNode);
+
+    return newNode;
+  }
+
+  /**
+   * Inserts a value right after the node of the handle - amortized O(log(n))
+   * @param {LinkedListNodeHandle<T>} handle - handle of a node in this list
+   * @param {T} val - value to add to the list
+   * @return {LinkedListNodeHandle<T>} handle of the new node
+   * @throws if the handle doesn't belong to this list
+   */
+  insertAfter(
+    handle: LinkedListNodeHandle<T>,
+    val: T,
+  ): LinkedListNodeHandle<T> {
+    const node = this.nodeOf(handle);
+    if (!node.next) return this.addBackNode(val);
+
+    const newNode = new LinkedListNode(val);
+    newNode.owner = this.owner;
+    this.linkAfter(node, newNode);
+
+    return newNode;
+  }
+
+  /**
+   * Removes the node of the handle from the list - amortized O(log(n))
+   * The handle can't be used anymore afterwards.
+   * @param {LinkedListNodeHandle<T>} handle - handle of a node in this list
+   * @return {T} - value of removed node
+   * @throws if the handle doesn't belong to this list
+   */
+  removeNode(handle: LinkedListNodeHandle<T>): T {
+    const node = this.nodeOf(handle);
+
+    this.unlink(node);
+    node.owner = null;
+
+    return node.val;
+  }
+
+  /**
+   * Moves the node of the handle to the head of the list - amortized O(log(n))
+   * @param {LinkedListNodeHandle<T>} handle - handle of a node in this list
+   * @return {void}
+   * @throws if the handle doesn't belong to this list
+   */
+  moveToFront(handle: LinkedListNodeHandle<T>): void {
+    const node = this.nodeOf(handle);
+    if (node === this.list!.head) return;
+
+    this.unlink(node);
+    //unlink only empties the list when removing its only node, which is the head
+    node.next = this.list!.head;
+    this.list!.head.prev = node;
+    this.list!.head = node;
+    this.list!.size += 1;
+  }
+
+  /**
+   * Moves the node of the handle to the tail of the list - amortized O(log(n))
+   * @param {LinkedListNodeHandle<T>} handle - handle of a node in this list
+   * @return {void}
+   * @throws if the handle doesn't belong to this list
+   */
+  moveToBack(handle: LinkedListNodeHandle<T>): void {
+    const node = this.nodeOf(handle);
+    if (node === this.list!.tail) return;
+
+    this.unlink(node);
+    //unlink only empties the list when removing its only node, which is the tail
+    node.prev = this.list!.tail;
+    this.list!.tail.next = node;
+    this.list!.tail = node;
+    this.list!.size += 1;
+  }
+
+  /*****************************BULK EDITING*************************************/
+  /**
+   * Returns a copy of the values from start up to, but not including, end - O(n)
+   * Negative indices count back from the tail, like Array.prototype.slice.
+   * @param {number} start - optional - defaults to 0
+   * @param {number} end - optional - defaults to the size of the list
+   * @return {LinkedList<T>} new list with the source's equals function
+   */
+  slice(start?: number, end?: number): LinkedList<T> {
+    const from = this.toBoundedIndex(start, 0);
+    const to = this.toBoundedIndex(end, this.size());
+    const sliced = new LinkedList<T>(this.equalsF);
+
+    let curr = from < to ? this.nodeAt(from) : null;
+    for (let i = from; i < to; i++) {
+      sliced.addBack(curr!.val);
+      curr = curr!.next;
+    }
+
+    return sliced;
+  }
+
+  /**
+   * Removes deleteCount values from start and inserts items in their place - O(n + k)
+   * where k is the number of items. Negative indices count back from the tail,
+   * like Array.prototype.splice.
+   * @param {number} start - index to start editing at
+   * @param {number} deleteCount - optional - defaults to everything after start
+   * @param {...T} items - values to insert at start
+   * @return {T[]} removed values
+   */
+  splice(start: number, deleteCount?: number, ...items: T[]): T[] {
+    const from = this.toBoundedIndex(start, 0);
+    const count =
+      deleteCount === undefined
+        ? this.size() - from
+        : Math.min(Math.max(0, deleteCount), this.size() - from);
+    const removed: T[] = [];
+
+    //prev is the node we edit after, null means we edit at the head
+    let prev = from > 0 ? this.nodeAt(from - 1) : null;
+
+    if (count > 0) {
+      this.modCount += 1;
+      let curr = prev ? prev.next : this.list!.head;
+      for (let i = 0; i < count; i++) {
+        removed.push(curr!.val);
+        curr!.owner = null;
+        curr = curr!.next;
+      }
+
+      //link the nodes around the removed range to each other in one go
+      if (prev) prev.next = curr;
+      else if (curr) this.list!.head = curr;
+      if (curr) curr.prev = prev;
+      else if (prev) this.list!.tail = prev;
+
+      this.list!.size -= count;
+      if (this.list!.size === 0) this.list = undefined;
+    }
+
+    for (const item of items) {
+      if (prev) {
+        const newNode = new LinkedListNode(item);
+        newNode.owner = this.owner;
+        this.linkAfter(prev, newNode);
+        prev = newNode;
+      } else {
+        this.addFront(item);
+        prev = this.list!.head;
+      }
+    }
+
+    return removed;
+  }
+
+  /**
+   * Moves all nodes of other to the tail of this list - O(1)
+   * other is empty afterwards, and handles to its nodes now belong to this list.
+   * @param {LinkedList<T>} other - list to take the nodes from
+   * @return {LinkedList<T>} this list
+   */
+  concat(other: LinkedList<T>): LinkedList<T> {
+    if (other === this) throw new Error("Can't concat a list with itself");
+
+    const otherList = other.list;
+    other.handOver(this);
+    if (!otherList) return this;
+    this.modCount += 1;
+
+    if (this.list) {
+      this.list.tail.next = otherList.head;
+      otherList.head.prev = this.list.tail;
+
+      this.list.tail = otherList.tail;
+      this.list.size += otherList.size;
+    } else {
+      this.list = otherList;
+    }
+
+    return this;
+  }
+
+  /**
+   * Detaches the nodes from index i to the tail into a new list - O(n)
+   * Handles to the detached nodes now belong to the new list.
+   * @param {number} i - index of the first node to detach
+   * @return {LinkedList<T>} new list with the source's equals function
+   */
+  splitAt(i: number): LinkedList<T> {
+    if (i < 0 || i > this.size()) throw new Error("OUT OF BOUND ERROR");
+
+    const detached = new LinkedList<T>(this.equalsF);
+    if (i === this.size()) return detached;
+    if (i === 0) {
+      //the whole list moves, so forwarding our owner is enough
+      const list = this.list;
+      this.handOver(detached);
+      detached.list = list;
+      return detached;
+    }
+
+    const head = this.nodeAt(i);
+    const size = this.list!.size - i;
+
+    //cut the chain in two
+    this.list!.tail = head.prev!;
+    this.list!.tail.next = null;
+    this.list!.size = i;
+    this.modCount += 1;
+    head.prev = null;
+
+    let tail = head;
+    for (let curr: LinkedListNode<T> | null = head; curr; curr = curr.next) {
+      curr.owner = detached.owner;
+      tail = curr;
+    }
+    detached.list = {head, tail, size};
+
+    return detached;
+  }
+
+  /**
+   * Sorts the list in place by relinking its nodes - O(nlog(n))
+   * Merge sort is used, so the sort is stable and node handles stay valid.
+   * @param {CompareFunction<T>} compareFunction - optional - defaults to utils.defaultCompare
+   * @return {LinkedList<T>} this list
+   */
+  sort(compareFunction?: utils.CompareFunction<T>): LinkedList<T> {
+    if (!this.list) return this;
+
+    const compare = compareFunction || utils.defaultCompare;
+    //we sort the nodes as a singly linked chain and fix the prev pointers afterwards
+    const head = LinkedList.sortNodes(this.list.head, this.list.size, compare);
+    this.relink(head, this.list.size);
+
+    return this;
+  }
+
+  /**
+   * Reverses the list in place - O(n)
+   * @return {LinkedList<T>} this list
+   */
+  reverse(): LinkedList<T> {
+    if (!this.list) return this;
+
+    let curr: LinkedListNode<T> | null = this.list.head;
+    while (curr) {
+      //swap the pointers of every node, the old next is the one we visit next
+      const next: LinkedListNode<T> | null = curr.next;
+      curr.next = curr.prev;
+      curr.prev = next;
+      curr = next;
+    }
+
+    const head = this.list.head;
+    this.modCount += 1;
+    this.list.head = this.list.tail;
+    this.list.tail = head;
+
+    return this;
+  }
+
+  /**
+   * Merges two sorted lists into a new sorted list by relinking their nodes - O(n + m)
+   * Both lists are empty afterwards, and handles to their nodes now belong to the new list.
+   * On ties, values of a come before values of b. The new list keeps a's equals function.
+   * @param {LinkedList<T>} a - sorted list
+   * @param {LinkedList<T>} b - sorted list
+   * @param {CompareFunction<T>} compareFunction - optional - defaults to utils.defaultCompare
+   * @return {LinkedList<T>}
+   */
+  static mergeSorted<T>(
+    a: LinkedList<T>,
+    b: LinkedList<T>,
+    compareFunction?: utils.CompareFunction<T>,
+  ): LinkedList<T> {
+    if (a === b) throw new Error("Can't merge a list with itself");
+
+    const compare = compareFunction || utils.defaultCompare;
+    const merged = new LinkedList<T>(a.equalsF);
+    const size = a.size() + b.size();
+
+    const head = LinkedList.mergeNodes(
+      a.list ? a.list.head : null,
+      b.list ? b.list.head : null,
+      compare,
+    );
+    a.handOver(merged);
+    b.handOver(merged);
+
+    if (head) merged.relink(head, size);
+
+    return merged;
+  }
+
+  /**
+   * Returns a new list with the result of calling fn on every element - O(n)
+   * The source's equals function can't be carried over since the element type changes,
+   * so an equals function for the new list can be supplied instead.
+   * @param {function(T, number, LinkedList<T>): U} fn - function to apply to every element
+   * @param {EqualsFunction<U>} equalsFunction - optional - equals function of the new list
+   * @return {LinkedList<U>}
+   */
+  map<U>(
+    fn: (val: T, i: number, list: LinkedList<T>) => U,
+    equalsFunction?: utils.EqualsFunction<U>,
+  ): LinkedList<U> {
+    const mapped = new LinkedList<U>(equalsFunction);
+
+    for (const val of this.lazyMap(fn)) {
+      mapped.addBack(val);
+    }
+
+    return mapped;
+  }
+
+  /**
+   * Returns a new list with the elements that pass the predicate - O(n)
+   * The new list keeps the source's equals function.
+   * @param {function(T, number, LinkedList<T>): boolean} predicate
+   * @return {LinkedList<T>}
+   */
+  filter(
+    predicate: (val: T, i: number, list: LinkedList<T>) => boolean,
+  ): LinkedList<T> {
+    const filtered = new LinkedList<T>(this.equalsF);
+
+    for (const val of this.lazyFilter(predicate)) {
+      filtered.addBack(val);
+    }
+
+    return filtered;
+  }
+
+  /**
+   * Maps every element to an iterable and flattens the results into a new list - O(n + m)
+   * where m is the total number of values produced by fn
+   * @param {function(T, number, LinkedList<T>): Iterable<U>} fn
+   * @param {EqualsFunction<U>} equalsFunction - optional - equals function of the new list
+   * @return {LinkedList<U>}
+   */
+  flatMap<U>(
+    fn: (val: T, i: number, list: LinkedList<T>) => Iterable<U>,
+    equalsFunction?: utils.EqualsFunction<U>,
+  ): LinkedList<U> {
+    const flattened = new LinkedList<U>(equalsFunction);
+
+    for (const val of this.lazyFlatMap(fn)) {
+      flattened.addBack(val);
+    }
+
+    return flattened;
+  }
+
+  /**
+   * Reduces the list from head to tail into a single value - O(n)
+   * If no initial value is given, the head is used as the initial value.
+   * @param {function(U, T, number, LinkedList<T>): U} reducer
+   * @param {U} initialValue - optional
+   * @return {U}
+   * @throws Empty List error if the list is empty and no initial value is given
+   */
+  reduce(reducer: (acc: T, val: T, i: number, list: LinkedList<T>) => T): T;
+  reduce<U>(
+    reducer: (acc: U, val: T, i: number, list: LinkedList<T>) => U,
+    initialValue: U,
+  ): U;
+  reduce<U>(
+    reducer: (acc: U, val: T, i: number, list: LinkedList<T>) => U,
+    initialValue?: U,
+  ): U {
+    const hasInitialValue = arguments.length >= 2;
+    if (!this.list) {
+      if (hasInitialValue) return initialValue as U;
+      throw new Error("List is Empty, Can't Reduce!");
+    }
+
+    let i = 0;
+    let curr: LinkedListNode<T> | null = this.list.head;
+    let acc: U;
+
+    if (hasInitialValue) {
+      acc = initialValue as U;
+    } else {
+      //we use the head as the initial value and start reducing from the second node
+      acc = curr.val as unknown as U;
+      curr = curr.next;
+      i = 1;
+    }
+
+    for (; curr != null; curr = curr.next, i++) {
+      acc = reducer(acc, curr.val, i, this);
+    }
+
+    return acc;
+  }
+
+  /**
+   * Returns the first element that passes the predicate, or undefined if there is none - O(n)
+   * @param {function(T, number, LinkedList<T>): boolean} predicate
+   * @return {T | undefined}
+   */
+  find(
+    predicate: (val: T, i: number, list: LinkedList<T>) => boolean,
+  ): T | undefined {
+    let i = 0;
+
+    for (const val of this) {
+      if (predicate(val, i, this)) return val;
+      i++;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Returns the index of the first element that passes the predicate, and -1 if there is none - O(n)
+   * @param {function(T, number, LinkedList<T>): boolean} predicate
+   * @return {number}
+   */
+  findIndex(
+    predicate: (val: T, i: number, list: LinkedList<T>) => boolean,
+  ): number {
+    let i = 0;
+
+    for (const val of this) {
+      if (predicate(val, i, this)) return i;
+      i++;
+    }
+
+    return -1;
+  }
+
+  /**
+   * Returns true if at least one element passes the predicate - O(n)
+   * @param {function(T, number, LinkedList<T>): boolean} predicate
+   * @return {boolean}
+   */
+  some(
+    predicate: (val: T, i: number, list: LinkedList<T>) => boolean,
+  ): boolean {
+    return this.findIndex(predicate) !== -1;
+  }
+
+  /**
+   * Returns true if every element passes the predicate, true for an empty list - O(n)
+   * @param {function(T, number, LinkedList<T>): boolean} predicate
+   * @return {boolean}
+   */
+  every(
+    predicate: (val: T, i: number, list: LinkedList<T>) => boolean,
+  ): boolean {
+    return this.findIndex((val, i, list) => !predicate(val, i, list)) === -1;
+  }
+
+  /**
+   * Calls fn on every element from head to tail - O(n)
+   * @param {function(T, number, LinkedList<T>): void} fn
+   * @return {void}
+   */
+  forEach(fn: (val: T, i: number, list: LinkedList<T>) => void): void {
+    let i = 0;
+
+    for (const val of this) {
+      fn(val, i, this);
+      i++;
+    }
+  }
+
+  /**
+   * Lazily maps the list. Values are only computed as they are pulled - O(1) per value
+   * @param {function(T, number, LinkedList<T>): U} fn
+   * @return {Generator<U>}
+   */
+  *lazyMap<U>(fn: (val: T, i: number, list: LinkedList<T>) => U): Generator<U> {
+    let i = 0;
+
+    for (const val of this) {
+      yield fn(val, i, this);
+      i++;
+    }
+  }
+
+  /**
+   * Lazily filters the list. The predicate is only called as values are pulled
+   * @param {function(T, number, LinkedList<T>): boolean} predicate
+   * @return {Generator<T>}
+   */
+  *lazyFilter(
+    predicate: (val: T, i: number, list: LinkedList<T>) => boolean,
+  ): Generator<T> {
+    let i = 0;
+
+    for (const val of this) {
+      if (predicate(val, i, this)) yield val;
+      i++;
+    }
+  }
+
+  /**
+   * Lazily maps every element to an iterable and yields its values one at a time
+   * @param {function(T, number, LinkedList<T>): Iterable<U>} fn
+   * @return {Generator<U>}
+   */
+  *lazyFlatMap<U>(
+    fn: (val: T, i: number, list: LinkedList<T>) => Iterable<U>,
+  ): Generator<U> {
+    let i = 0;
+
+    for (const val of this) {
+      yield* fn(val, i, this);
+      i++;
+    }
   }
 
   /*******************************HELPERS****************************************/
+  /**
+   * Gets the node at index i, walking from whichever end is nearer - O(n)
+   * @param {number} i - index, must be in bounds
+   * @return {LinkedListNode<T>}
+   */
+  private nodeAt(i: number): LinkedListNode<T> {
+    const list = this.list!;
+
+    if (i < list.size / 2) {
+      let curr = list.head;
+      for (let j = 0; j < i; j++) curr = curr.next!;
+      return curr;
+    }
+
+    let curr = list.tail;
+    for (let j = list.size - 1; j > i; j--) curr = curr.prev!;
+    return curr;
+  }
+
+  /**
+   * Turns a possibly negative or out of range index into one in [0, size] - O(1)
+   * @param {number | undefined} i - index, negative counts back from the tail
+   * @param {number} fallback - index to use if i is undefined
+   * @return {number}
+   */
+  private toBoundedIndex(i: number | undefined, fallback: number): number {
+    if (i === undefined) return fallback;
+    if (i < 0) return Math.max(0, this.size() + i);
+
+    return Math.min(i, this.size());
+  }
+
+  /**
+   * Merge sorts a chain of size nodes linked through next - O(nlog(n))
+   * @param {LinkedListNode<T>} head
+   * @param {number} size - number of nodes in the chain
+   * @param {CompareFunction<T>} compare
+   * @return {LinkedListNode<T>} head of the sorted chain
+   */
+  private static sortNodes<T>(
+    head: LinkedListNode<T>,
+    size: number,
+    compare: utils.CompareFunction<T>,
+  ): LinkedListNode<T> {
+    if (size <= 1) {
+      head.next = null;
+      return head;
+    }
+
+    //walk to the first node of the right half, we need it before sorting cuts the chain
+    const leftSize = Math.floor(size / 2);
+    let right = head;
+    for (let i = 0; i < leftSize; i++) {
+      right = right.next!;
+    }
+
+    const sortedLeft = LinkedList.sortNodes(head, leftSize, compare);
+    const sortedRight = LinkedList.sortNodes(right, size - leftSize, compare);
+
+    return LinkedList.mergeNodes(sortedLeft, sortedRight, compare)!;
+  }
+
+  /**
+   * Merges two sorted chains linked through next into one, taking from a on ties - O(n + m)
+   * @param {LinkedListNode<T> | null} a
+   * @param {LinkedListNode<T> | null} b
+   * @param {CompareFunction<T>} compare
+   * @return {LinkedListNode<T> | null} head of the merged chain
+   */
+  private static mergeNodes<T>(
+    a: LinkedListNode<T> | null,
+    b: LinkedListNode<T> | null,
+    compare: utils.CompareFunction<T>,
+  ): LinkedListNode<T> | null {
+    let head: LinkedListNode<T> | null = null;
+    let tail: LinkedListNode<T> | null = null;
+
+    while (a || b) {
+      let next: LinkedListNode<T>;
+      //taking from a when the values are equal is what keeps the merge stable
+      if (!b || (a && compare(a.val, b.val) <= 0)) {
+        next = a!;
+        a = a!.next;
+      } else {
+        next = b;
+        b = b.next;
+      }
+
+      if (tail) tail.next = next;
+      else head = next;
+      tail = next;
+    }
+
+    return head;
+  }
+
+  /**
+   * Takes a chain linked through next as the whole list, restoring prev pointers and tail - O(n)
+   * @param {LinkedListNode<T>} head
+   * @param {number} size - number of nodes in the chain
+   * @return {void}
+   */
+  private relink(head: LinkedListNode<T>, size: number): void {
+    this.modCount += 1;
+    let prev: LinkedListNode<T> | null = null;
+    let curr: LinkedListNode<T> | null = head;
+
+    while (curr) {
+      curr.prev = prev;
+      prev = curr;
+      curr = curr.next;
+    }
+
+    this.list = {head, tail: prev!, size};
+  }
+
+  /**
+   * Empties this list and forwards its owner, so handles to its nodes belong to target - O(1)
+   * @param {LinkedList<T>} target - list that took over the nodes
+   * @return {void}
+   */
+  private handOver(target: LinkedList<T>): void {
+    this.modCount += 1;
+    this.owner.forward = target.owner;
+    this.owner = {forward: null};
+    this.list = undefined;
+  }
+
+  /**
+   * Returns the node behind the handle if it belongs to this list - amortized O(log(n))
+   * @param {LinkedListNodeHandle<T>} handle
+   * @return {LinkedListNode<T>}
+   * @throws if the handle doesn't belong to this list
+   */
+  private nodeOf(handle: LinkedListNodeHandle<T>): LinkedListNode<T> {
+    const node = handle as LinkedListNode<T>;
+    if (!(node instanceof LinkedListNode) || !node.owner) {
+      throw new Error("Node doesn't belong to this list");
+    }
+
+    //the node may still carry the owner of a list that was concatenated or merged into this one
+    const owner = utils.resolveOwner(node.owner);
+    node.owner = owner;
+
+    if (owner !== this.owner)
+      throw new Error("Node doesn't belong to this list");
+
+    return node;
+  }
+
+  /**
+   * Links newNode right after node, which must be in this list - O(1)
+   * @param {LinkedListNode<T>} node
+   * @param {LinkedListNode<T>} newNode
+   * @return {void}
+   */
+  private linkAfter(node: LinkedListNode<T>, newNode: LinkedListNode<T>): void {
+    this.modCount += 1;
+    newNode.prev = node;
+    newNode.next = node.next;
+
+    if (node.next) node.next.prev = newNode;
+    else this.list!.tail = newNode;
+
+    node.next = newNode;
+    this.list!.size += 1;
+  }
+
+  /**
+   * Detaches a node of this list, keeping head, tail and size consistent - O(1)
+   * @param {LinkedListNode<T>} node
+   * @return {void}
+   */
+  private unlink(node: LinkedListNode<T>): void {
+    this.modCount += 1;
+    if (node.prev) node.prev.next = node.next;
+    else this.list!.head = node.next!;
+
+    if (node.next) node.next.prev = node.prev;
+    else this.list!.tail = node.prev!;
+
+    node.prev = null;
+    node.next = null;
+    this.list!.size -= 1;
+
+    if (this.list!.size === 0) this.list = undefined;
+  }
+
   fromArray(A: T[]): LinkedList<T> {
     for (const a of A) {
       this.addBack(a);
@@ -328,6 +1100,14 @@ class LinkedList<T> implements Iterable<T> {
     return this;
   }
 
+  /**
+   * Copies the values into a new immutable PersistentList - O(n)
+   * @return {PersistentList<T>}
+   */
+  toPersistent(): PersistentList<T> {
+    return PersistentList.fromArray(Array.from(this));
+  }
+
   *[Symbol.iterator](): Iterator<T> {
     if (!this.list) return;
 
@@ -337,6 +1117,126 @@ class LinkedList<T> implements Iterable<T> {
       yield curr?.val;
     }
   }
+
+  /**
+   * Iterates the list from tail to head
+   * @return {Generator<T>}
+   */
+  *reverseIterator(): Generator<T> {
+    if (!this.list) return;
+
+    let curr: LinkedListNode<T> | null;
+
+    for (curr = this.list.tail; curr != null; curr = curr.prev) {
+      yield curr.val;
+    }
+  }
+
+  /**
+   * Returns a cursor positioned before the head of the list - O(1)
+   * @return {ListIterator<T>}
+   */
+  cursor(): ListIterator<T> {
+    return this.listIterator(0);
+  }
+
+  /**
+   * Returns a cursor positioned before the element at fromIndex - O(n)
+   * Every step and edit through the cursor is O(1). The cursor throws as soon as
+   * it notices that the list was structurally changed by anything but itself.
+   * @param {number} fromIndex - optional - index of the element next() returns first, defaults to 0
+   * @return {ListIterator<T>}
+   */
+  listIterator(fromIndex = 0): ListIterator<T> {
+    if (fromIndex < 0 || fromIndex > this.size()) {
+      throw new Error("OUT OF BOUND ERROR");
+    }
+
+    const list = this;
+    let nextNode = fromIndex < this.size() ? this.nodeAt(fromIndex) : null;
+    let nextIndex = fromIndex;
+    //node returned last by next() or prev(), the one set() and remove() act on
+    let lastReturned: LinkedListNode<T> | null = null;
+    let expectedModCount = this.modCount;
+
+    const checkForModification = (): void => {
+      if (list.modCount !== expectedModCount) {
+        throw new Error("List was modified outside of the cursor");
+      }
+    };
+
+    return {
+      hasNext(): boolean {
+        return nextIndex < list.size();
+      },
+
+      next(): T {
+        checkForModification();
+        if (!nextNode) throw new Error("No next element");
+
+        lastReturned = nextNode;
+        nextNode = nextNode.next;
+        nextIndex += 1;
+
+        return lastReturned.val;
+      },
+
+      hasPrev(): boolean {
+        return nextIndex > 0;
+      },
+
+      prev(): T {
+        checkForModification();
+        const prevNode = nextNode ? nextNode.prev : list.list?.tail;
+        if (!prevNode) throw new Error("No previous element");
+
+        lastReturned = nextNode = prevNode;
+        nextIndex -= 1;
+
+        return prevNode.val;
+      },
+
+      index(): number {
+        return nextIndex;
+      },
+
+      set(val: T): void {
+        checkForModification();
+        if (!lastReturned) throw new Error("No element to set");
+
+        lastReturned.val = val;
+      },
+
+      insert(val: T): void {
+        checkForModification();
+
+        if (nextNode) list.insertBefore(nextNode, val);
+        else list.addBack(val);
+
+        //the new element is before the cursor, so next() still returns the same element
+        nextIndex += 1;
+        lastReturned = null;
+        expectedModCount = list.modCount;
+      },
+
+      remove(): T {
+        checkForModification();
+        if (!lastReturned) throw new Error("No element to remove");
+
+        //after prev() the removed node is the one after the cursor, otherwise it's before it
+        if (lastReturned === nextNode) nextNode = nextNode.next;
+        else nextIndex -= 1;
+
+        const val = list.removeNode(lastReturned);
+        lastReturned = null;
+        expectedModCount = list.modCount;
+
+        return val;
+      },
+    };
+  }
 }
 
+export type {ListIterator};
+
 export default LinkedList;
@@ -0,0 +1,106 @@
+import PersistentList from "./persistent-list";
+import * as utils from "./utils";
+
+/**
+ * Bidirectional cursor over a list. The cursor sits between two elements:
+ * next() returns the element after it and prev() the element before it.
+ * set() and remove() act on the element returned last by next() or prev().
+ */
+export interface ListIterator<T> {
+  hasNext(): boolean;
+  next(): T;
+  hasPrev(): boolean;
+  prev(): T;
+  index(): number;
+  set(val: T): void;
+  insert(val: T): void;
+  remove(): T;
+}
+
+/**
+ * The List ADT shared by ./linked-list.ts and ./unrolled-linked-list.ts, so the
+ * two can be swapped for each other. Both classes implement it, which keeps
+ * their APIs from drifting apart.
+ *
+ * concat() and splitAt() are left out on purpose. They move nodes between two
+ * lists, which only works when both are of the same class, so each class types
+ * them with itself. Node handles are LinkedList only, and so is the static
+ * mergeSorted(), since an interface can't describe statics.
+ */
+export interface ListADT<T> extends Iterable<T> {
+  // niceties
+  size(): number;
+  isEmpty(): boolean;
+  clear(): void;
+
+  // insertion
+  addFront(val: T): void;
+  addBack(val: T): void;
+  addAt(i: number, val: T): void;
+
+  // accessing
+  peekFront(): T;
+  peekBack(): T;
+  get(i: number): T;
+
+  // searching
+  indexOf(value: T, equalsFunction?: utils.EqualsFunction<T>): number;
+  contains(value: T, equalsFunction?: utils.EqualsFunction<T>): boolean;
+
+  // deletion
+  removeFront(): T;
+  removeBack(): T;
+  remove(val: T): T;
+  removeAt(i: number): T;
+
+  // bulk editing
+  slice(start?: number, end?: number): ListADT<T>;
+  splice(start: number, deleteCount?: number, ...items: T[]): T[];
+
+  // ordering
+  sort(compareFunction?: utils.CompareFunction<T>): ListADT<T>;
+  reverse(): ListADT<T>;
+
+  // functional
+  map<U>(
+    fn: (val: T, i: number, list: ListADT<T>) => U,
+    equalsFunction?: utils.EqualsFunction<U>,
+  ): ListADT<U>;
+  filter(
+    predicate: (val: T, i: number, list: ListADT<T>) => boolean,
+  ): ListADT<T>;
+  flatMap<U>(
+    fn: (val: T, i: number, list: ListADT<T>) => Iterable<U>,
+    equalsFunction?: utils.EqualsFunction<U>,
+  ): ListADT<U>;
+  reduce(reducer: (acc: T, val: T, i: number, list: ListADT<T>) => T): T;
+  reduce<U>(
+    reducer: (acc: U, val: T, i: number, list: ListADT<T>) => U,
+    initialValue: U,
+  ): U;
+  find(
+    predicate: (val: T, i: number, list: ListADT<T>) => boolean,
+  ): T | undefined;
+  findIndex(
+    predicate: (val: T, i: number, list: ListADT<T>) => boolean,
+  ): number;
+  some(predicate: (val: T, i: number, list: ListADT<T>) => boolean): boolean;
+  every(predicate: (val: T, i: number, list: ListADT<T>) => boolean): boolean;
+  forEach(fn: (val: T, i: number, list: ListADT<T>) => void): void;
+  lazyMap<U>(fn: (val: T, i: number, list: ListADT<T>) => U): Generator<U>;
+  lazyFilter(
+    predicate: (val: T, i: number, list: ListADT<T>) => boolean,
+  ): Generator<T>;
+  lazyFlatMap<U>(
+    fn: (val: T, i: number, list: ListADT<T>) => Iterable<U>,
+  ): Generator<U>;
+
+  // conversion
+  fromArray(A: T[]): ListADT<T>;
+  toPersistent(): PersistentList<T>;
+
+  // iteration
+  reverseIterator(): Generator<T>;
+  cursor(): ListIterator<T>;
+  listIterator(fromIndex?: number): ListIterator<T>;
+}
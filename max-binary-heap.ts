@@ -0,0 +1,22 @@
+import BinaryHeap from "./binary-heap";
+import * as utils from "./utils";
+
+/*******************************************************************************
+ * A max binary heap has constant access to the max element of the heap, with
+ * logarithmic insertions and deletions. See ./binary-heap.ts
+ *
+ * add(element) - O(logn)
+ * poll() - O(logn) // remove
+ * peek() - O(1)
+ ******************************************************************************/
+
+class MaxBinaryHeap<T> extends BinaryHeap<T, "max"> {
+  constructor(
+    elements?: Iterable<T>,
+    compareFunction?: utils.CompareFunction<T>,
+  ) {
+    super(elements, {order: "max", compare: compareFunction});
+  }
+}
+
+export default MaxBinaryHeap;
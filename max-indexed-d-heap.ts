@@ -0,0 +1,18 @@
+import IndexedDHeap from "./indexed-d-heap";
+import * as utils from "./utils";
+
+/*******************************************************************************
+ * An indexed max D-heap, with the largest value on top. See ./indexed-d-heap.ts
+ *
+ * add(key, val) - O(log_d(n))
+ * poll() - O(log_d(n))
+ * peek() - O(1)
+ ******************************************************************************/
+
+class MaxIndexedDHeap<T> extends IndexedDHeap<T, "max"> {
+  constructor(degree: number, compareFunction?: utils.CompareFunction<T>) {
+    super(degree, {order: "max", compare: compareFunction});
+  }
+}
+
+export default MaxIndexedDHeap;
@@ -0,0 +1,242 @@
+import * as utils from "./utils";
+
+/*******************************************************************************
+ * A min D-heap is a generalization of the min binary heap, where every node has
+ * d children instead of 2.
+ *
+ * A larger degree makes the tree shallower, with log_d(n) levels instead of
+ * log_2(n). Swimming up only compares against the parent, so adds and
+ * decreases get cheaper. Sinking down compares against all d children on every
+ * level, so polls get more expensive. That makes D-heaps a good fit for
+ * workloads with many more adds than polls, like Dijkstra on dense graphs.
+ *
+ * add(element) - O(log_d(n))
+ * poll() - O(dlog_d(n)) // remove
+ * peek() - O(1)
+ *
+ * For more info, refer to https://en.wikipedia.org/wiki/D-ary_heap
+ ******************************************************************************/
+
+class MinDHeap<T> {
+  private d: number; // the degree of every node in the heap
+  // a dynamic array to hold our elements
+  private heap: T[];
+  private compare: utils.CompareFunction<T>;
+
+  constructor(
+    degree: number,
+    elements?: Iterable<T>,
+    compareFunction?: utils.CompareFunction<T>,
+  ) {
+    this.d = Math.max(2, degree); // degree must be at least 2
+    this.heap = [];
+    this.compare = compareFunction || utils.defaultCompare;
+    if (elements) {
+      this.heap = Array.from(elements);
+      this.heapify(); //O(n)
+    }
+  }
+
+  // Same as Floyd's heap construction for binary heaps. We sink every node that
+  // has children, starting from the last one. The leaves, which are most of the
+  // tree, are never sunk, which keeps this bounded by O(n).
+  private heapify(): void {
+    let i = this.getParentPosition(this.size() - 1);
+    for (; i >= 0; i--) {
+      this.sink(i);
+    }
+  }
+
+  /*****************************************************************************
+                                  INSPECTION
+  *****************************************************************************/
+  /**
+   * Returns the size of the heap - O(1)
+   * @returns {number}
+   */
+  size(): number {
+    return this.heap.length;
+  }
+
+  /**
+   * Returns true if the heap is empty, false otherwise - O(1)
+   * @returns {boolean}
+   */
+  isEmpty(): boolean {
+    return this.size() == 0;
+  }
+
+  /*****************************************************************************
+                                  INSERTION/DELETION
+  *****************************************************************************/
+  /**
+   * Adds an element to the heap, while maintaing the heap invariant - O(log_d(n))
+   * @param {T} element
+   * @returns {void}
+   */
+  add(element: T): void {
+    this.heap.push(element);
+    this.swim(this.size() - 1);
+  }
+
+  /**
+   * Removes and returns top most element of heap - O(dlog_d(n))
+   * @returns {T | null}
+   */
+  poll(): T | null {
+    if (this.isEmpty()) return null;
+
+    return this.removeAt(0);
+  }
+
+  /**
+   * Removes element if it exists. Returns true if success, false otherwise - O(n)
+   * @param {T} element
+   * @returns {boolean}
+   */
+  remove(element: T): boolean {
+    const elementIndex = this.indexOf(element);
+    if (elementIndex === -1) return false;
+
+    this.removeAt(elementIndex);
+
+    return true;
+  }
+
+  /**
+   * Clears the heap - O(1)
+   * @returns {void}
+   */
+  clear(): void {
+    this.heap.length = 0;
+  }
+
+  /*****************************************************************************
+                                  ACCESSING
+  *****************************************************************************/
+  /**
+   * Peeks at the top most element in the heap - O(1)
+   * @returns {T | null}
+   */
+  peek(): T | null {
+    if (this.isEmpty()) return null;
+
+    return this.heap[0]; // the head of our tree
+  }
+
+  /*****************************************************************************
+                                  SEARCHING
+  *****************************************************************************/
+  /**
+   * Returns true if element is in heap, false otherwise - O(n)
+   * @param {T} element
+   * @returns {boolean}
+   */
+  contains(element: T): boolean {
+    return this.indexOf(element) !== -1;
+  }
+
+  /*****************************************************************************
+                                  HELPERS
+  *****************************************************************************/
+  // O(n) - position of an element that compares equal to the given one, -1 if there is none
+  private indexOf(element: T): number {
+    return this.heap.findIndex((h: T) => this.compare(h, element) === 0);
+  }
+
+  /**
+   * Sinks element with index k until heap invariant is satisfied - O(dlog_d(n))
+   * At each level, we have to do d comparisons to find the smallest child.
+   * @param {number} k
+   * @returns {void}
+   */
+  private sink(k: number): void {
+    while (true) {
+      const firstChildPosition = this.getFirstChildPosition(k);
+
+      //if the first child is out of bounds, so are the others and k is a leaf
+      if (firstChildPosition >= this.size()) break;
+
+      let smallestChildPosition = firstChildPosition;
+      const lastChildPosition = Math.min(
+        firstChildPosition + this.d,
+        this.size(),
+      );
+      for (let i = firstChildPosition + 1; i < lastChildPosition; i++) {
+        if (this.less(i, smallestChildPosition)) smallestChildPosition = i;
+      }
+
+      if (!this.less(smallestChildPosition, k)) break;
+
+      this.swap(k, smallestChildPosition);
+      k = smallestChildPosition;
+    }
+  }
+
+  /**
+   * Swims an element with index k until heap invariant is satisfied - O(log_d(n))
+   * @param {number} k
+   * @returns {void}
+   */
+  private swim(k: number): void {
+    let parentPosition = this.getParentPosition(k);
+
+    while (k > 0 && this.less(k, parentPosition)) {
+      this.swap(k, parentPosition);
+      k = parentPosition;
+
+      parentPosition = this.getParentPosition(k);
+    }
+  }
+
+  // O(1)
+  private swap(i: number, j: number): void {
+    const temp = this.heap[i];
+
+    this.heap[i] = this.heap[j];
+    this.heap[j] = temp;
+  }
+
+  /**
+   * Removes element at provided index by swapping it with last element, and
+   * heapifying the swapped element by sinking/swimming it - O(dlog_d(n))
+   * @param {number} indexToRemove
+   * @returns {T}
+   */
+  private removeAt(indexToRemove: number): T {
+    const removedValue = this.heap[indexToRemove];
+
+    const indexOfLastElement = this.size() - 1;
+    this.swap(indexToRemove, indexOfLastElement);
+    this.heap.pop();
+
+    //nothing took the removed element's place, so there is nothing to heapify
+    if (indexToRemove === indexOfLastElement) return removedValue;
+
+    //the last element only moves one way, so at most one of these does anything
+    this.sink(indexToRemove);
+    this.swim(indexToRemove);
+
+    return removedValue;
+  }
+
+  // O(1)
+  private getFirstChildPosition(parentIndex: number): number {
+    return parentIndex * this.d + 1;
+  }
+  // O(1)
+  private getParentPosition(childIndex: number): number {
+    return Math.floor((childIndex - 1) / this.d);
+  }
+
+  /**
+   * Returns true if a is less than b, false otherwise
+   * @param {number} a
+   * @param {number} b
+   */
+  private less(a: number, b: number) {
+    return this.compare(this.heap[a], this.heap[b]) < 0;
+  }
+}
+
+export default MinDHeap;
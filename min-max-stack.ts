@@ -0,0 +1,132 @@
+import Stack from "./stack";
+import * as utils from "./utils";
+
+/*******************************************************************************
+ * A stack that also knows its smallest and largest element at all times.
+ *
+ * Next to the values, we keep a stack of minimums and a stack of maximums. Each
+ * push records the min and max of everything on the stack at that point, so a
+ * pop just has to drop the top of each stack to get back the previous ones.
+ *
+ * push(element) - O(1)
+ * pop() - O(1)
+ * min() - O(1)
+ * max() - O(1)
+ ******************************************************************************/
+
+class MinMaxStack<T> implements Iterable<T> {
+  private values: Stack<T>;
+  private mins: Stack<T>; // mins[i] is the minimum of values[0..i]
+  private maxs: Stack<T>; // maxs[i] is the maximum of values[0..i]
+  private compare: utils.CompareFunction<T>;
+
+  constructor(compareFunction?: utils.CompareFunction<T>) {
+    this.values = new Stack();
+    this.mins = new Stack();
+    this.maxs = new Stack();
+    this.compare = compareFunction || utils.defaultCompare;
+  }
+
+  /**************************************************************************
+                                    NICETIES
+    **************************************************************************/
+  /**
+   * Returns size of the Stack O(1)
+   * @returns number
+   */
+  size(): number {
+    return this.values.size();
+  }
+
+  /**
+   * Returns true is stack is Empty O(1)
+   * @return boolean
+   */
+  isEmpty(): boolean {
+    return this.values.isEmpty();
+  }
+
+  /**
+   * Deletes everyting in the stack O(1)
+   * @returns {void}
+   */
+  clear(): void {
+    this.values.clear();
+    this.mins.clear();
+    this.maxs.clear();
+  }
+
+  /**
+   * Pushes an Element into the stack O(1)
+   * @param {T} - value to add to the stack
+   * @returns {void}
+   */
+  push(element: T): void {
+    if (this.isEmpty()) {
+      this.mins.push(element);
+      this.maxs.push(element);
+    } else {
+      const min = this.mins.peek();
+      const max = this.maxs.peek();
+      this.mins.push(this.compare(element, min) < 0 ? element : min);
+      this.maxs.push(this.compare(element, max) > 0 ? element : max);
+    }
+
+    this.values.push(element);
+  }
+
+  /**
+   * Pops the Element from the top of the stack O(1)
+   * @returns {T} - removed value from the stack
+   */
+  pop(): T {
+    const element = this.values.pop();
+    this.mins.pop();
+    this.maxs.pop();
+
+    return element;
+  }
+
+  /**
+   * Peeks the tail of the stack O(1)
+   * @returns {T} the value of the tail
+   */
+  peek(): T {
+    return this.values.peek();
+  }
+
+  /**
+   * Returns the smallest element on the stack O(1)
+   * @returns {T}
+   * @throws Empty List error
+   */
+  min(): T {
+    return this.mins.peek();
+  }
+
+  /**
+   * Returns the largest element on the stack O(1)
+   * @returns {T}
+   * @throws Empty List error
+   */
+  max(): T {
+    return this.maxs.peek();
+  }
+
+  /**
+   * Checks if the first instance of the provided value is found in the stack O(n)
+   * Equals function must be supplied for non-primitive values.
+   * @param {T} - value to be checked
+   * @param {EqualsFunction<T>} equalsFunction - optional
+   * @returns boolean
+   */
+  contains(element: T, equalsFunction?: utils.EqualsFunction<T>): boolean {
+    return this.values.contains(element, equalsFunction);
+  }
+
+  [Symbol.iterator](): Iterator<T> {
+    return this.values[Symbol.iterator]();
+  }
+}
+
+export default MinMaxStack;
@@ -0,0 +1,158 @@
+import Deque from "./deque";
+import * as utils from "./utils";
+
+export interface MonotonicQueueOptions<T> {
+  compare?: utils.CompareFunction<T>; // defaults to utils.defaultCompare
+  windowSize?: number; // keep only the last windowSize pushes, defaults to no limit
+}
+
+interface Entry<T> {
+  value: T;
+  sequence: number; // number of pushes before this one
+  timestamp: number;
+}
+
+/*******************************************************************************
+ * Min and max of a sliding window over a stream, without rescanning the window.
+ *
+ * We keep two deques. The min deque only holds values that could still become
+ * the min of the window: when a value is pushed, every value at the back that
+ * is larger is dropped, since it leaves the window before the new value and can
+ * never be the min again. So the deque is increasing, and its front is the min.
+ * The max deque is the same in reverse.
+ *
+ * Values leave the window either by count (windowSize) or by time
+ * (evictOlderThan), and only ever from the front of the deques.
+ *
+ * push(value) - O(1) amortized, every value enters and leaves each deque once
+ * evictOlderThan(timestamp) - O(1) amortized
+ * min() / max() - O(1)
+ ******************************************************************************/
+
+class MonotonicQueue<T> {
+  private mins: Deque<Entry<T>>; // increasing from front to back
+  private maxs: Deque<Entry<T>>; // decreasing from front to back
+  private compare: utils.CompareFunction<T>;
+  private windowSize: number;
+  private sequence: number; // sequence number of the next push
+
+  constructor(options: MonotonicQueueOptions<T> = {}) {
+    this.mins = new Deque();
+    this.maxs = new Deque();
+    this.compare = options.compare || utils.defaultCompare;
+    this.windowSize = options.windowSize ?? Infinity;
+    this.sequence = 0;
+
+    if (this.windowSize < 1) throw new Error("Window size must be at least 1");
+  }
+
+  /*****************************************************************************
+                                  NICETIES
+  *****************************************************************************/
+  /**
+   * Returns true if the window is empty, false otherwise - O(1)
+   * @returns {boolean}
+   */
+  isEmpty(): boolean {
+    //the latest value is always in both deques, so they are only empty with the window
+    return this.mins.isEmpty();
+  }
+
+  /**
+   * Empties the window - O(1)
+   * @returns {void}
+   */
+  clear(): void {
+    this.mins.clear();
+    this.maxs.clear();
+  }
+
+  /*****************************************************************************
+                                  INSERTION/DELETION
+  *****************************************************************************/
+  /**
+   * Pushes a value into the window - O(1) amortized
+   * @param {T} value
+   * @param {number} timestamp - optional - used by evictOlderThan(), must not be smaller than earlier ones.
+   * Defaults to the number of earlier pushes
+   * @returns {void}
+   */
+  push(value: T, timestamp?: number): void {
+    const entry: Entry<T> = {
+      value,
+      sequence: this.sequence,
+      timestamp: timestamp ?? this.sequence,
+    };
+    this.sequence += 1;
+
+    while (
+      !this.mins.isEmpty() &&
+      this.compare(this.mins.peekBack().value, value) > 0
+    ) {
+      this.mins.popBack();
+    }
+    this.mins.pushBack(entry);
+
+    while (
+      !this.maxs.isEmpty() &&
+      this.compare(this.maxs.peekBack().value, value) < 0
+    ) {
+      this.maxs.popBack();
+    }
+    this.maxs.pushBack(entry);
+
+    //everything pushed before the last windowSize pushes has left the window
+    const oldestSequence = this.sequence - this.windowSize;
+    this.evictWhile((e) => e.sequence < oldestSequence);
+  }
+
+  /**
+   * Removes every value pushed with a timestamp before the given one - O(1) amortized
+   * @param {number} timestamp
+   * @returns {void}
+   */
+  evictOlderThan(timestamp: number): void {
+    this.evictWhile((e) => e.timestamp < timestamp);
+  }
+
+  /*****************************************************************************
+                                  ACCESSING
+  *****************************************************************************/
+  /**
+   * Returns the smallest value in the window - O(1)
+   * @returns {T}
+   * @throws Empty Window error
+   */
+  min(): T {
+    if (this.isEmpty()) throw new Error("Window is Empty");
+
+    return this.mins.peekFront().value;
+  }
+
+  /**
+   * Returns the largest value in the window - O(1)
+   * @returns {T}
+   * @throws Empty Window error
+   */
+  max(): T {
+    if (this.isEmpty()) throw new Error("Window is Empty");
+
+    return this.maxs.peekFront().value;
+  }
+
+  /*****************************************************************************
+                                  HELPERS
+  *****************************************************************************/
+  // drops entries from the front of both deques while they match
+  private evictWhile(isOutOfWindow: (entry: Entry<T>) => boolean): void {
+    while (!this.mins.isEmpty() && isOutOfWindow(this.mins.peekFront())) {
+      this.mins.popFront();
+    }
+
+    while (!this.maxs.isEmpty() && isOutOfWindow(this.maxs.peekFront())) {
+      this.maxs.popFront();
+    }
+  }
+}
+
+export default MonotonicQueue;
@@ -0,0 +1,359 @@
+import {CircularBufferOptions, CircularBufferOverflow} from "./circular-buffer";
+
+/**
+ * Fixed size deque of stream positions, in a ring over a Float64Array so that
+ * pushing and popping never allocates. Float64 keeps positions exact up to 2^53.
+ */
+class PositionDeque {
+  private positions: Float64Array;
+  private head: number; // index of the front position
+  private sz: number;
+
+  constructor(capacity: number) {
+    this.positions = new Float64Array(capacity);
+    this.head = 0;
+    this.sz = 0;
+  }
+
+  isEmpty(): boolean {
+    return this.sz === 0;
+  }
+
+  clear(): void {
+    this.head = 0;
+    this.sz = 0;
+  }
+
+  peekFront(): number {
+    return this.positions[this.head];
+  }
+
+  peekBack(): number {
+    return this.positions[(this.head + this.sz - 1) % this.positions.length];
+  }
+
+  pushBack(position: number): void {
+    this.positions[(this.head + this.sz) % this.positions.length] = position;
+    this.sz += 1;
+  }
+
+  popFront(): void {
+    this.head = (this.head + 1) % this.positions.length;
+    this.sz -= 1;
+  }
+
+  popBack(): void {
+    this.sz -= 1;
+  }
+}
+
+/*******************************************************************************
+ * A circular buffer of numbers that keeps statistics of its window up to date
+ * as numbers come and go, for metrics and the like.
+ *
+ * The numbers live unboxed in a Float64Array. Sum, mean and variance are kept
+ * with Welford's algorithm, which we also run backwards when a number leaves
+ * the window.
+ *
+ * Min and max are kept like in the MonotonicQueue: the min deque only holds
+ * numbers that could still become the min, so it is increasing and its front is
+ * the min, and the max deque is the same in reverse. Instead of boxing the
+ * numbers, the deques hold their positions in the stream. Position p lives at
+ * p % capacity in the buffer, and evicting a number is just dropping positions
+ * before the start of the window. Neither deque can outgrow the buffer, so they
+ * are fixed size rings too, and nothing is allocated after construction.
+ *
+ * enqueue(value) / dequeue() - O(1) amortized
+ * sum() / mean() / variance() / stddev() / min() / max() - O(1)
+ *
+ * For more info, refer to https://en.wikipedia.org/wiki/Algorithms_for_calculating_variance#Welford's_online_algorithm
+ ******************************************************************************/
+
+class NumericRingBuffer implements Iterable<number> {
+  private list: Float64Array;
+  private sz: number;
+  private cap: number;
+  private overflow: CircularBufferOverflow;
+  private onOverwrite: ((evicted: number) => void) | undefined;
+
+  private readIndex: number;
+  private writeIndex: number;
+
+  private total: number; // running sum
+  private runningMean: number;
+  private m2: number; // sum of squared differences from the mean
+  private mins: PositionDeque; // increasing values from front to back
+  private maxs: PositionDeque; // decreasing values from front to back
+  private enqueued: number; // number of values enqueued since the last clear, the position of the next one
+
+  constructor(capacity: number, options: CircularBufferOptions<number> = {}) {
+    if (capacity < 1) throw new Error("Capacity must be at least 1");
+
+    this.cap = capacity;
+    this.list = new Float64Array(capacity);
+    this.sz = 0;
+    this.readIndex = 0;
+    this.writeIndex = 0;
+    this.overflow = options.overflow || "overwrite";
+    this.onOverwrite = options.onOverwrite;
+
+    this.total = 0;
+    this.runningMean = 0;
+    this.m2 = 0;
+    this.mins = new PositionDeque(capacity);
+    this.maxs = new PositionDeque(capacity);
+    this.enqueued = 0;
+  }
+
+  /**************************************************************************
+                                    NICETIES
+    **************************************************************************/
+  /**
+   * Returns the size of the buffer - O(1)
+   */
+  size(): number {
+    return this.sz;
+  }
+
+  /**
+   * Returns the max number of values the buffer holds - O(1)
+   */
+  get capacity(): number {
+    return this.cap;
+  }
+
+  /**
+   * Returns true if the buffer is empty - false otherwise O(1)
+   * @returns {boolean}
+   */
+  isEmpty(): boolean {
+    return this.sz === 0;
+  }
+
+  /**
+   * Returns true if the buffer holds capacity values - false otherwise O(1)
+   * @returns {boolean}
+   */
+  isFull(): boolean {
+    return this.sz === this.cap;
+  }
+
+  /**
+   * Deletes all values and resets the statistics - O(1)
+   * @returns {void}
+   */
+  clear(): void {
+    this.sz = 0;
+    this.readIndex = 0;
+    this.writeIndex = 0;
+
+    this.total = 0;
+    this.runningMean = 0;
+    this.m2 = 0;
+    this.mins.clear();
+    this.maxs.clear();
+    //the write index starts over, so the positions have to as well
+    this.enqueued = 0;
+  }
+
+  /*****************************************************************************
+                                  INSERTION/DELETION
+  *****************************************************************************/
+  /**
+   * Enqueues a value into the buffer - O(1) amortized
+   * If the buffer is full, the overflow mode decides what happens.
+   * @param {number} value - value to be enqueued
+   * @returns {boolean} true if the value was enqueued, false if it was rejected
+   * @throws Buffer Full error if the buffer is full and the overflow mode is "throw"
+   */
+  enqueue(value: number): boolean {
+    if (this.isFull()) {
+      if (this.overflow === "throw") throw new Error("Buffer is Full");
+      if (this.overflow === "reject") return false;
+
+      const evicted = this.dequeue()!;
+      if (this.onOverwrite) this.onOverwrite(evicted);
+    }
+
+    this.list[this.writeIndex] = value;
+    this.writeIndex = (this.writeIndex + 1) % this.cap;
+    this.sz += 1;
+
+    //Welford's update
+    const delta = value - this.runningMean;
+    this.total += value;
+    this.runningMean += delta / this.sz;
+    this.m2 += delta * (value - this.runningMean);
+
+    //values that are larger (smaller) than the new one can never be the min (max) again
+    while (!this.mins.isEmpty() && this.valueAt(this.mins.peekBack()) > value) {
+      this.mins.popBack();
+    }
+    this.mins.pushBack(this.enqueued);
+
+    while (!this.maxs.isEmpty() && this.valueAt(this.maxs.peekBack()) < value) {
+      this.maxs.popBack();
+    }
+    this.maxs.pushBack(this.enqueued);
+
+    this.enqueued += 1;
+
+    return true;
+  }
+
+  /**
+   * Dequeues the oldest value from the buffer - O(1) amortized
+   * @returns {number | null} null if the buffer is empty
+   */
+  dequeue(): number | null {
+    if (this.isEmpty()) return null;
+
+    const value = this.list[this.readIndex];
+    this.readIndex = (this.readIndex + 1) % this.cap;
+    this.sz -= 1;
+
+    if (this.sz === 0) {
+      //starting over keeps rounding errors from piling up
+      this.total = 0;
+      this.runningMean = 0;
+      this.m2 = 0;
+    } else {
+      //Welford's update run backwards
+      const oldMean = this.runningMean;
+      this.total -= value;
+      this.runningMean = oldMean + (oldMean - value) / this.sz;
+      this.m2 = Math.max(
+        0,
+        this.m2 - (value - oldMean) * (value - this.runningMean),
+      );
+    }
+
+    //the oldest value left in the window is at stream position enqueued - size
+    const oldest = this.enqueued - this.sz;
+    while (!this.mins.isEmpty() && this.mins.peekFront() < oldest) {
+      this.mins.popFront();
+    }
+    while (!this.maxs.isEmpty() && this.maxs.peekFront() < oldest) {
+      this.maxs.popFront();
+    }
+
+    return value;
+  }
+
+  /*****************************************************************************
+                                  ACCESSING
+  *****************************************************************************/
+  /**
+   * Peeks at the oldest value - O(1)
+   * @returns {number | null} null if the buffer is empty
+   */
+  peekFront(): number | null {
+    if (this.isEmpty()) return null;
+    return this.list[this.readIndex];
+  }
+
+  /**
+   * Peeks at the newest value - O(1)
+   * @returns {number | null} null if the buffer is empty
+   */
+  peekBack(): number | null {
+    if (this.isEmpty()) return null;
+    return this.list[(this.writeIndex - 1 + this.cap) % this.cap];
+  }
+
+  /**
+   * Gets the value at index i, counting from the oldest value - O(1)
+   * Negative indices count back from the newest value, so -1 is the newest.
+   * @param {number} i - index of the value
+   * @returns {number | null} null if the index is out of bounds
+   */
+  at(i: number): number | null {
+    if (i < 0) i += this.sz;
+    if (i < 0 || i >= this.sz) return null;
+
+    return this.list[(this.readIndex + i) % this.cap];
+  }
+
+  /**
+   * Returns the values from oldest to newest - O(n)
+   * @returns {number[]}
+   */
+  toArray(): number[] {
+    return Array.from(this);
+  }
+
+  /*****************************************************************************
+                                  STATISTICS
+  *****************************************************************************/
+  /**
+   * Returns the sum of the values - O(1)
+   * @returns {number} 0 if the buffer is empty
+   */
+  sum(): number {
+    return this.total;
+  }
+
+  /**
+   * Returns the mean of the values - O(1)
+   * @returns {number | null} null if the buffer is empty
+   */
+  mean(): number | null {
+    if (this.isEmpty()) return null;
+    return this.runningMean;
+  }
+
+  /**
+   * Returns the population variance of the values - O(1)
+   * @returns {number | null} null if the buffer is empty
+   */
+  variance(): number | null {
+    if (this.isEmpty()) return null;
+    return this.m2 / this.sz;
+  }
+
+  /**
+   * Returns the population standard deviation of the values - O(1)
+   * @returns {number | null} null if the buffer is empty
+   */
+  stddev(): number | null {
+    const variance = this.variance();
+    return variance === null ? null : Math.sqrt(variance);
+  }
+
+  /**
+   * Returns the smallest value - O(1)
+   * @returns {number | null} null if the buffer is empty
+   */
+  min(): number | null {
+    if (this.isEmpty()) return null;
+    return this.valueAt(this.mins.peekFront());
+  }
+
+  /**
+   * Returns the largest value - O(1)
+   * @returns {number | null} null if the buffer is empty
+   */
+  max(): number | null {
+    if (this.isEmpty()) return null;
+    return this.valueAt(this.maxs.peekFront());
+  }
+
+  /*****************************************************************************
+                                  HELPERS
+  *****************************************************************************/
+  // O(1) - value at a stream position that is still in the window
+  private valueAt(position: number): number {
+    return this.list[position % this.cap];
+  }
+
+  /**
+   * Iterates the values from oldest to newest
+   */
+  *[Symbol.iterator](): Iterator<number> {
+    for (let i = 0; i < this.sz; i++) {
+      yield this.list[(this.readIndex + i) % this.cap];
+    }
+  }
+}
+
+export default NumericRingBuffer;
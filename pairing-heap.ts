@@ -0,0 +1,318 @@
+import * as utils from "./utils";
+
+/**
+ * Opaque handle to an element of a PairingHeap. It can be given back to the heap
+ * for decreaseKey() and delete(). It stays valid when its heap is melded into
+ * another one, and then belongs to that other heap.
+ */
+export interface PairingHeapHandle<T> {
+  readonly val: T;
+}
+
+class PairingHeapNode<T> {
+  val: T;
+  child: PairingHeapNode<T> | null; // leftmost child
+  sibling: PairingHeapNode<T> | null; // next sibling to the right
+  prev: PairingHeapNode<T> | null; // left sibling, or the parent for the leftmost child
+  owner: utils.Owner | null; // token of the heap the node is in, null once it left
+
+  constructor(val: T, owner: utils.Owner) {
+    this.val = val;
+    this.child = null;
+    this.sibling = null;
+    this.prev = null;
+    this.owner = owner;
+  }
+}
+
+/*******************************************************************************
+ * A pairing heap is a heap ordered tree where a node can have any number of
+ * children. It is much simpler than a Fibonacci heap and usually faster in
+ * practice, which makes it a good fit for graph algorithms.
+ *
+ * Merging two heaps is just linking their roots: the larger root becomes the
+ * first child of the smaller one. insert() and meld() do nothing else, so they
+ * are constant time. The work is done in poll(), which has to merge all the
+ * children of the old root. It merges them in pairs from left to right, then
+ * merges the pairs from right to left, which is what keeps the tree from
+ * degenerating and gives the amortized logarithmic bound.
+ *
+ * decreaseKey() cuts the node's subtree out of the tree and links it back in
+ * at the root, so the tree never has to be walked.
+ *
+ * Every node carries a token of its heap, so a handle from another heap can be
+ * told apart. meld() doesn't re-tag the other heap's nodes, it points the other
+ * heap's token at ours. Looking up a handle follows those links once and
+ * shortens them for everyone else, so even a long chain of melds is only
+ * walked once.
+ *
+ * insert(val) - O(1)
+ * meld(other) - O(1)
+ * peek() - O(1)
+ * poll() - O(log(n)) amortized
+ * decreaseKey(handle, val) - O(log(n)) amortized, O(1) in practice
+ * delete(handle) - O(log(n)) amortized
+ *
+ * For more info, refer to https://en.wikipedia.org/wiki/Pairing_heap
+ ******************************************************************************/
+
+class PairingHeap<T> {
+  private root: PairingHeapNode<T> | null;
+  private sz: number;
+  private compare: utils.CompareFunction<T>;
+  private owner: utils.Owner; // token of this heap, see utils.resolveOwner
+
+  constructor(compareFunction?: utils.CompareFunction<T>) {
+    this.root = null;
+    this.sz = 0;
+    this.compare = compareFunction || utils.defaultCompare;
+    this.owner = {forward: null};
+  }
+
+  /*****************************************************************************
+                                  INSPECTION
+  *****************************************************************************/
+  /**
+   * Returns the size of the heap - O(1)
+   * @returns {number}
+   */
+  size(): number {
+    return this.sz;
+  }
+
+  /**
+   * Returns true if the heap is empty, false otherwise - O(1)
+   * @returns {boolean}
+   */
+  isEmpty(): boolean {
+    return this.size() == 0;
+  }
+
+  /**
+   * Clears the heap. Handles to its elements are no longer accepted - O(1)
+   * @returns {void}
+   */
+  clear(): void {
+    this.root = null;
+    this.sz = 0;
+    this.owner = {forward: null};
+  }
+
+  /*****************************************************************************
+                                  INSERTION/DELETION
+  *****************************************************************************/
+  /**
+   * Adds a value to the heap - O(1)
+   * @param {T} val
+   * @returns {PairingHeapHandle<T>} handle for decreaseKey() and delete()
+   */
+  insert(val: T): PairingHeapHandle<T> {
+    const node = new PairingHeapNode(val, this.owner);
+
+    this.root = this.link(this.root, node);
+    this.sz += 1;
+
+    return node;
+  }
+
+  /**
+   * Moves every element of other into this heap, leaving other empty - O(1)
+   * Handles to other's elements now belong to this heap. Both heaps must use the same order.
+   * @param {PairingHeap<T>} other
+   * @returns {void}
+   */
+  meld(other: PairingHeap<T>): void {
+    if (other === this) return;
+
+    this.root = this.link(this.root, other.root);
+    this.sz += other.sz;
+
+    //melding is O(1) because other's nodes keep their token, it just leads to ours from now on
+    other.owner.forward = this.owner;
+    other.owner = {forward: null};
+    other.root = null;
+    other.sz = 0;
+  }
+
+  /**
+   * Removes and returns top most element of heap - O(log(n)) amortized
+   * @returns {T | null} null if the heap is empty
+   */
+  poll(): T | null {
+    if (this.root === null) return null;
+
+    const root = this.root;
+    this.root = this.mergePairs(root.child);
+    this.sz -= 1;
+
+    root.child = null;
+    root.owner = null;
+
+    return root.val;
+  }
+
+  /**
+   * Removes the element behind the handle and returns its value - O(log(n)) amortized
+   * @param {PairingHeapHandle<T>} handle - handle of an element in this heap
+   * @returns {T}
+   * @throws if the handle doesn't belong to this heap
+   */
+  delete(handle: PairingHeapHandle<T>): T {
+    const node = this.nodeOf(handle);
+    if (node === this.root) return this.poll()!;
+
+    this.cut(node);
+    this.root = this.link(this.root, this.mergePairs(node.child));
+    this.sz -= 1;
+
+    node.child = null;
+    node.owner = null;
+
+    return node.val;
+  }
+
+  /*****************************************************************************
+                                  UPDATING
+  *****************************************************************************/
+  /**
+   * Gives the element behind the handle a smaller value - O(1), O(log(n)) amortized
+   * Returns false if newValue isn't smaller than the current value, like IndexedDHeap.decreaseKey.
+   * @param {PairingHeapHandle<T>} handle - handle of an element in this heap
+   * @param {T} newValue
+   * @returns {boolean}
+   * @throws if the handle doesn't belong to this heap
+   */
+  decreaseKey(handle: PairingHeapHandle<T>, newValue: T): boolean {
+    const node = this.nodeOf(handle);
+    if (this.compare(newValue, node.val) >= 0) return false;
+
+    node.val = newValue;
+    if (node === this.root) return true;
+
+    //the subtree stays heap ordered, only its link to the parent may be broken now
+    this.cut(node);
+    this.root = this.link(this.root, node);
+
+    return true;
+  }
+
+  /*****************************************************************************
+                                  ACCESSING
+  *****************************************************************************/
+  /**
+   * Peeks at the top most element in the heap - O(1)
+   * @returns {T | null} null if the heap is empty
+   */
+  peek(): T | null {
+    if (this.root === null) return null;
+
+    return this.root.val;
+  }
+
+  /*****************************************************************************
+                                  HELPERS
+  *****************************************************************************/
+  /**
+   * Links two trees, making the root with the larger value the leftmost child of the other - O(1)
+   * @param {PairingHeapNode<T> | null} a - root without siblings
+   * @param {PairingHeapNode<T> | null} b - root without siblings
+   * @returns {PairingHeapNode<T> | null} the new root
+   */
+  private link(
+    a: PairingHeapNode<T> | null,
+    b: PairingHeapNode<T> | null,
+  ): PairingHeapNode<T> | null {
+    if (a === null) return b;
+    if (b === null) return a;
+
+    if (this.compare(b.val, a.val) < 0) {
+      const temp = a;
+      a = b;
+      b = temp;
+    }
+
+    b.prev = a;
+    b.sibling = a.child;
+    if (a.child) a.child.prev = b;
+    a.child = b;
+
+    return a;
+  }
+
+  /**
+   * Merges a list of siblings into one tree - O(log(n)) amortized
+   * First pass links them in pairs from left to right, second pass links the
+   * pairs from right to left. We loop instead of recursing, since the list of
+   * siblings can be as long as the heap.
+   * @param {PairingHeapNode<T> | null} first - leftmost sibling
+   * @returns {PairingHeapNode<T> | null} root of the merged tree
+   */
+  private mergePairs(
+    first: PairingHeapNode<T> | null,
+  ): PairingHeapNode<T> | null {
+    const pairs: PairingHeapNode<T>[] = [];
+
+    let curr = first;
+    while (curr !== null) {
+      const a = curr;
+      const b = a.sibling;
+      curr = b ? b.sibling : null;
+
+      this.detach(a);
+      if (b) this.detach(b);
+
+      pairs.push(this.link(a, b)!);
+    }
+
+    let root: PairingHeapNode<T> | null = null;
+    while (pairs.length > 0) {
+      root = this.link(pairs.pop()!, root);
+    }
+
+    return root;
+  }
+
+  /**
+   * Cuts the subtree of node, which must not be the root, out of the tree - O(1)
+   * @param {PairingHeapNode<T>} node
+   * @returns {void}
+   */
+  private cut(node: PairingHeapNode<T>): void {
+    const prev = node.prev!;
+    if (prev.child === node) prev.child = node.sibling;
+    else prev.sibling = node.sibling;
+
+    if (node.sibling) node.sibling.prev = prev;
+
+    this.detach(node);
+  }
+
+  // O(1) - clears the links of node to its siblings and parent
+  private detach(node: PairingHeapNode<T>): void {
+    node.prev = null;
+    node.sibling = null;
+  }
+
+  /**
+   * Returns the node behind the handle if it belongs to this heap - amortized O(log(n))
+   * @param {PairingHeapHandle<T>} handle
+   * @returns {PairingHeapNode<T>}
+   * @throws if the handle doesn't belong to this heap
+   */
+  private nodeOf(handle: PairingHeapHandle<T>): PairingHeapNode<T> {
+    const node = handle as PairingHeapNode<T>;
+    if (!(node instanceof PairingHeapNode) || !node.owner) {
+      throw new Error("Node doesn't belong to this heap");
+    }
+
+    //a node from a melded heap carries that heap's token until it is first looked up here
+    node.owner = utils.resolveOwner(node.owner);
+    if (node.owner !== this.owner) {
+      throw new Error("Node doesn't belong to this heap");
+    }
+
+    return node;
+  }
+}
+
+export default PairingHeap;
@@ -0,0 +1,192 @@
+import LinkedList from "./linked-list";
+import * as utils from "./utils";
+
+/*******************************************************************************
+ * A persistent list never changes after it is created. Every update returns a
+ * new version of the list and leaves the old one untouched, which makes it safe
+ * to share between reducers, undo histories and the like.
+ *
+ * It's a singly linked list of cons cells. Prepending creates one cell that
+ * points at the old head, so the new version shares all of its other cells
+ * with the old one instead of copying them.
+ *
+ * prepend(val) - O(1)
+ * head() - O(1)
+ * tail() - O(1)
+ * size() - O(1)
+ *
+ * For more info, refer to https://en.wikipedia.org/wiki/Persistent_data_structure#Linked_lists
+ ******************************************************************************/
+
+class ConsCell<T> {
+  readonly val: T;
+  readonly next: ConsCell<T> | null;
+  readonly size: number; // number of cells from this one to the end of the list
+
+  constructor(val: T, next: ConsCell<T> | null) {
+    this.val = val;
+    this.next = next;
+    this.size = next ? next.size + 1 : 1;
+  }
+}
+
+class PersistentList<T> implements Iterable<T> {
+  private readonly cell: ConsCell<T> | null;
+
+  private constructor(cell: ConsCell<T> | null) {
+    this.cell = cell;
+  }
+
+  /**
+   * Returns an empty list - O(1)
+   * @returns {PersistentList<T>}
+   */
+  static empty<T>(): PersistentList<T> {
+    return new PersistentList<T>(null);
+  }
+
+  /**
+   * Creates a list with the values of the array in the same order - O(n)
+   * @param {T[]} A
+   * @returns {PersistentList<T>}
+   */
+  static fromArray<T>(A: T[]): PersistentList<T> {
+    let cell: ConsCell<T> | null = null;
+
+    //we build the list from the back, since we can only prepend
+    for (let i = A.length - 1; i >= 0; i--) {
+      cell = new ConsCell(A[i], cell);
+    }
+
+    return new PersistentList(cell);
+  }
+
+  /*****************************************************************************
+                                  NICETIES
+  *****************************************************************************/
+  /**
+   * Returns the size of the list - O(1)
+   * @returns {number}
+   */
+  size(): number {
+    return this.cell ? this.cell.size : 0;
+  }
+
+  /**
+   * Returns true if the list is empty, false otherwise - O(1)
+   * @returns {boolean}
+   */
+  isEmpty(): boolean {
+    return !this.cell;
+  }
+
+  /*****************************************************************************
+                                  UPDATING
+  *****************************************************************************/
+  /**
+   * Returns a new list with val in front of this list - O(1)
+   * @param {T} val
+   * @returns {PersistentList<T>}
+   */
+  prepend(val: T): PersistentList<T> {
+    return new PersistentList(new ConsCell(val, this.cell));
+  }
+
+  /**
+   * Returns the list without its first value - O(1)
+   * @returns {PersistentList<T>}
+   * @throws Empty List error
+   */
+  tail(): PersistentList<T> {
+    if (!this.cell) throw new Error("List is Empty, Has No Tail!");
+
+    return new PersistentList(this.cell.next);
+  }
+
+  /*****************************************************************************
+                                  ACCESSING
+  *****************************************************************************/
+  /**
+   * Returns the first value of the list - O(1)
+   * @returns {T}
+   * @throws Empty List error
+   */
+  head(): T {
+    if (!this.cell) throw new Error("List is Empty, Can't Peek!");
+
+    return this.cell.val;
+  }
+
+  /**
+   * Returns the value at index i - O(i)
+   * @param {number} i
+   * @returns {T}
+   */
+  get(i: number): T {
+    if (i < 0 || i >= this.size()) throw new Error("OUT OF BOUND ERROR");
+
+    let cell = this.cell!;
+    for (let j = 0; j < i; j++) {
+      cell = cell.next!;
+    }
+
+    return cell.val;
+  }
+
+  /*****************************************************************************
+                                  SEARCHING
+  *****************************************************************************/
+  /**
+   * Returns true if both lists have equal values in the same order - O(n)
+   * Shared cells are only compared once, so comparing two versions is O(number of
+   * cells that differ) when they share their tails.
+   * @param {PersistentList<T>} other
+   * @param {EqualsFunction<T>} equalsFunction - optional - defaults to utils.defaultEquals
+   * @returns {boolean}
+   */
+  equals(
+    other: PersistentList<T>,
+    equalsFunction?: utils.EqualsFunction<T>,
+  ): boolean {
+    if (this.size() !== other.size()) return false;
+
+    const equalsF = equalsFunction || utils.defaultEquals;
+    let a = this.cell;
+    let b = other.cell;
+
+    //once both versions point at the same cell, the rest of the lists is shared
+    while (a && b && a !== b) {
+      if (!equalsF(a.val, b.val)) return false;
+      a = a.next;
+      b = b.next;
+    }
+
+    return true;
+  }
+
+  /*****************************************************************************
+                                  HELPERS
+  *****************************************************************************/
+  /**
+   * Copies the values into a new mutable LinkedList - O(n)
+   * @param {EqualsFunction<T>} equalsFunction - optional - equals function of the new list
+   * @returns {LinkedList<T>}
+   */
+  toLinkedList(equalsFunction?: utils.EqualsFunction<T>): LinkedList<T> {
+    const list = new LinkedList<T>(equalsFunction);
+
+    for (const val of this) {
+      list.addBack(val);
+    }
+
+    return list;
+  }
+
+  *[Symbol.iterator](): Iterator<T> {
+    for (let cell = this.cell; cell != null; cell = cell.next) {
+      yield cell.val;
+    }
+  }
+}
+
+export default PersistentList;
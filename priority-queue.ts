@@ -0,0 +1,124 @@
+import MinBinaryHeap from "./min-binary-heap";
+import * as utils from "./utils";
+
+export interface PriorityQueueOptions<P> {
+  order?: "min" | "max"; // whether the smallest or the largest priority comes out first, defaults to "min"
+  compare?: utils.CompareFunction<P>; // compares priorities, defaults to utils.defaultCompare
+}
+
+interface Entry<T, P> {
+  item: T;
+  priority: P;
+  sequence: number; // insertion order, breaks ties between equal priorities
+}
+
+/*******************************************************************************
+ * A stable priority queue on top of MinBinaryHeap. Items with the same priority
+ * come out in the order they went in.
+ *
+ * A binary heap makes no promises about the order of equal elements, so every
+ * item is stored with a sequence number that grows with each enqueue. When two
+ * priorities are equal, the smaller sequence number wins.
+ *
+ * enqueue(item, priority) - O(log(n))
+ * dequeue() - O(log(n))
+ * peek() - O(1)
+ ******************************************************************************/
+
+class PriorityQueue<T, P = number> {
+  private heap: MinBinaryHeap<Entry<T, P>>;
+  private compareEntries: utils.CompareFunction<Entry<T, P>>;
+  private sequence: number; // sequence number of the next item
+
+  constructor(options: PriorityQueueOptions<P> = {}) {
+    const compare = options.compare || utils.defaultCompare;
+    const sign = options.order === "max" ? -1 : 1;
+
+    this.compareEntries = (a, b) => {
+      const byPriority = sign * compare(a.priority, b.priority);
+      if (byPriority !== 0) return byPriority;
+
+      //the sequence decides ties in insertion order, for both min and max queues
+      return a.sequence - b.sequence;
+    };
+    this.heap = new MinBinaryHeap(undefined, this.compareEntries);
+    this.sequence = 0;
+  }
+
+  /*****************************************************************************
+                                  INSPECTION
+  *****************************************************************************/
+  /**
+   * Returns the number of items in the queue - O(1)
+   * @returns {number}
+   */
+  size(): number {
+    return this.heap.size();
+  }
+
+  /**
+   * Returns true if the queue is empty, false otherwise - O(1)
+   * @returns {boolean}
+   */
+  isEmpty(): boolean {
+    return this.heap.isEmpty();
+  }
+
+  /**
+   * Deletes everything in the queue - O(1)
+   * @returns {void}
+   */
+  clear(): void {
+    this.heap = new MinBinaryHeap(undefined, this.compareEntries);
+    this.sequence = 0;
+  }
+
+  /*****************************************************************************
+                                  INSERTION/DELETION
+  *****************************************************************************/
+  /**
+   * Adds an item with the given priority - O(log(n))
+   * @param {T} item
+   * @param {P} priority
+   * @returns {void}
+   */
+  enqueue(item: T, priority: P): void {
+    this.heap.add({item, priority, sequence: this.sequence});
+    this.sequence += 1;
+  }
+
+  /**
+   * Removes and returns the item with the highest priority, first in first out among equals - O(log(n))
+   * @returns {T | null} null if the queue is empty
+   */
+  dequeue(): T | null {
+    const entry = this.heap.poll();
+
+    return entry ? entry.item : null;
+  }
+
+  /*****************************************************************************
+                                  ACCESSING
+  *****************************************************************************/
+  /**
+   * Peeks at the item dequeue() would return - O(1)
+   * @returns {T | null} null if the queue is empty
+   */
+  peek(): T | null {
+    const entry = this.heap.peek();
+
+    return entry ? entry.item : null;
+  }
+
+  /**
+   * Peeks at the priority of the item dequeue() would return - O(1)
+   * @returns {P | null} null if the queue is empty
+   */
+  peekPriority(): P | null {
+    const entry = this.heap.peek();
+
+    return entry ? entry.priority : null;
+  }
+}
+
+export default PriorityQueue;
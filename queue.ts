@@ -75,7 +75,7 @@ class Queue<T> implements Iterable<T> {
    */
   peekBack(): T | null {
     if (this.isEmpty()) return null;
-    return this.list.peekFront();
+    return this.list.peekBack();
   }
 
   /*****************************************************************************
@@ -97,3 +97,5 @@ class Queue<T> implements Iterable<T> {
     return this.list[Symbol.iterator]();
   }
 }
+
+export default Queue;
@@ -0,0 +1,374 @@
+/*******************************************************************************
+ * Single-producer/single-consumer ring buffers over a SharedArrayBuffer, for
+ * moving data between worker_threads without postMessage.
+ *
+ * Like the CircularBuffer, we keep a read and a write index. Here they live at
+ * the start of the shared memory, so both threads see them. Only the producer
+ * moves the write index and only the consumer moves the read index, which is
+ * what makes it safe without locks: each side writes the data first and then
+ * publishes it by storing its index with Atomics, and the other side loads that
+ * index with Atomics before it touches the data.
+ *
+ * One slot always stays empty, so read === write means empty and never full.
+ *
+ * The producer and the consumer are the same class. Create the buffer on one
+ * thread, pass its `buffer` to the other thread (e.g. as workerData), and wrap
+ * it with `new SharedNumberRingBuffer(buffer)` there.
+ *
+ * push(value) / pop() - O(1)
+ * write(record) / read() - O(record length)
+ *
+ * For more info, refer to https://en.wikipedia.org/wiki/Circular_buffer
+ ******************************************************************************/
+
+const READ_INDEX = 0; // position of the read index in the header
+const WRITE_INDEX = 1; // position of the write index in the header
+const HEADER_BYTES = 8; // two Int32 indices, which also keeps the Float64 payload aligned
+const LENGTH_PREFIX_BYTES = 4;
+
+/**
+ * The shared read and write indices, and waiting for the other side to move them.
+ */
+class SharedRingIndices {
+  private header: Int32Array;
+  readonly slots: number; // size of the payload in slots, one more than the capacity
+
+  constructor(buffer: SharedArrayBuffer, slots: number) {
+    this.header = new Int32Array(buffer, 0, 2);
+    this.slots = slots;
+  }
+
+  read(): number {
+    return Atomics.load(this.header, READ_INDEX);
+  }
+
+  write(): number {
+    return Atomics.load(this.header, WRITE_INDEX);
+  }
+
+  // number of slots between the read and the write index
+  used(read: number, write: number): number {
+    return (write - read + this.slots) % this.slots;
+  }
+
+  // number of slots the producer can still fill, keeping one slot empty
+  free(read: number, write: number): number {
+    return this.slots - 1 - this.used(read, write);
+  }
+
+  publishRead(read: number): void {
+    Atomics.store(this.header, READ_INDEX, read % this.slots);
+    Atomics.notify(this.header, READ_INDEX);
+  }
+
+  publishWrite(write: number): void {
+    Atomics.store(this.header, WRITE_INDEX, write % this.slots);
+    Atomics.notify(this.header, WRITE_INDEX);
+  }
+
+  /**
+   * Calls attempt until it succeeds, sleeping until the other side moves its index in between
+   * Returns false if timeoutMs passes first.
+   */
+  waitUntil(
+    attempt: () => boolean,
+    otherIndex: number,
+    timeoutMs: number,
+  ): boolean {
+    const deadline = Date.now() + timeoutMs;
+
+    while (true) {
+      //we remember the index before the attempt, so we can't miss a move that happens after it
+      const observed = Atomics.load(this.header, otherIndex);
+      if (attempt()) return true;
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) return false;
+
+      Atomics.wait(this.header, otherIndex, observed, remaining);
+    }
+  }
+}
+
+export class SharedNumberRingBuffer {
+  readonly buffer: SharedArrayBuffer;
+  private indices: SharedRingIndices;
+  private data: Float64Array;
+
+  /**
+   * Wraps shared memory created by SharedNumberRingBuffer.create()
+   * @param {SharedArrayBuffer} buffer
+   */
+  constructor(buffer: SharedArrayBuffer) {
+    const slots = (buffer.byteLength - HEADER_BYTES) / 8;
+
+    this.buffer = buffer;
+    this.indices = new SharedRingIndices(buffer, slots);
+    this.data = new Float64Array(buffer, HEADER_BYTES, slots);
+  }
+
+  /**
+   * Allocates shared memory for capacity numbers and wraps it
+   * @param {number} capacity - max number of numbers in the buffer
+   * @returns {SharedNumberRingBuffer}
+   */
+  static create(capacity: number): SharedNumberRingBuffer {
+    if (capacity < 1) throw new Error("Capacity must be at least 1");
+
+    return new SharedNumberRingBuffer(
+      new SharedArrayBuffer(HEADER_BYTES + (capacity + 1) * 8),
+    );
+  }
+
+  /**************************************************************************
+                                    NICETIES
+    **************************************************************************/
+  /**
+   * Returns the max number of numbers the buffer holds - O(1)
+   */
+  get capacity(): number {
+    return this.indices.slots - 1;
+  }
+
+  /**
+   * Returns the number of numbers in the buffer - O(1)
+   * Only a snapshot, the other side may change it right after.
+   */
+  size(): number {
+    return this.indices.used(this.indices.read(), this.indices.write());
+  }
+
+  /**
+   * Returns true if the buffer is empty - false otherwise O(1)
+   */
+  isEmpty(): boolean {
+    return this.size() === 0;
+  }
+
+  /*****************************************************************************
+                                  PRODUCER
+  *****************************************************************************/
+  /**
+   * Adds a number to the buffer - O(1)
+   * @param {number} value
+   * @returns {boolean} false if the buffer is full
+   */
+  push(value: number): boolean {
+    const read = this.indices.read();
+    const write = this.indices.write();
+    if (this.indices.free(read, write) === 0) return false;
+
+    this.data[write] = value;
+    this.indices.publishWrite(write + 1);
+
+    return true;
+  }
+
+  /**
+   * Adds a number to the buffer, waiting for space if it is full
+   * Blocks the thread, see Atomics.wait.
+   * @param {number} value
+   * @param {number} timeoutMs - optional - defaults to waiting forever
+   * @returns {boolean} false if the timeout passed before there was space
+   */
+  pushBlocking(value: number, timeoutMs = Infinity): boolean {
+    return this.indices.waitUntil(
+      () => this.push(value),
+      READ_INDEX,
+      timeoutMs,
+    );
+  }
+
+  /*****************************************************************************
+                                  CONSUMER
+  *****************************************************************************/
+  /**
+   * Removes and returns the oldest number - O(1)
+   * @returns {number | null} null if the buffer is empty
+   */
+  pop(): number | null {
+    const read = this.indices.read();
+    const write = this.indices.write();
+    if (read === write) return null;
+
+    const value = this.data[read];
+    this.indices.publishRead(read + 1);
+
+    return value;
+  }
+
+  /**
+   * Removes and returns the oldest number, waiting for one if the buffer is empty
+   * Blocks the thread, see Atomics.wait.
+   * @param {number} timeoutMs - optional - defaults to waiting forever
+   * @returns {number | null} null if the timeout passed before a number arrived
+   */
+  popBlocking(timeoutMs = Infinity): number | null {
+    let value: number | null = null;
+    this.indices.waitUntil(
+      () => (value = this.pop()) !== null,
+      WRITE_INDEX,
+      timeoutMs,
+    );
+
+    return value;
+  }
+}
+
+export class SharedByteRingBuffer {
+  readonly buffer: SharedArrayBuffer;
+  private indices: SharedRingIndices;
+  private data: Uint8Array;
+
+  /**
+   * Wraps shared memory created by SharedByteRingBuffer.create()
+   * @param {SharedArrayBuffer} buffer
+   */
+  constructor(buffer: SharedArrayBuffer) {
+    const slots = buffer.byteLength - HEADER_BYTES;
+
+    this.buffer = buffer;
+    this.indices = new SharedRingIndices(buffer, slots);
+    this.data = new Uint8Array(buffer, HEADER_BYTES, slots);
+  }
+
+  /**
+   * Allocates shared memory for capacity bytes and wraps it
+   * Every record takes 4 bytes for its length on top of its own bytes.
+   * @param {number} capacity - max number of bytes in the buffer, length prefixes included
+   * @returns {SharedByteRingBuffer}
+   */
+  static create(capacity: number): SharedByteRingBuffer {
+    if (capacity < LENGTH_PREFIX_BYTES + 1) {
+      throw new Error(`Capacity must be at least ${LENGTH_PREFIX_BYTES + 1}`);
+    }
+
+    return new SharedByteRingBuffer(
+      new SharedArrayBuffer(HEADER_BYTES + capacity + 1),
+    );
+  }
+
+  /**************************************************************************
+                                    NICETIES
+    **************************************************************************/
+  /**
+   * Returns the max number of bytes the buffer holds, length prefixes included - O(1)
+   */
+  get capacity(): number {
+    return this.indices.slots - 1;
+  }
+
+  /**
+   * Returns true if there is no record in the buffer - false otherwise O(1)
+   * Only a snapshot, the other side may change it right after.
+   */
+  isEmpty(): boolean {
+    return this.indices.read() === this.indices.write();
+  }
+
+  /*****************************************************************************
+                                  PRODUCER
+  *****************************************************************************/
+  /**
+   * Adds a record to the buffer - O(record length)
+   * @param {Uint8Array} record
+   * @returns {boolean} false if there isn't enough space for the record right now
+   * @throws if the record can never fit into the buffer
+   */
+  write(record: Uint8Array): boolean {
+    const size = LENGTH_PREFIX_BYTES + record.length;
+    if (size > this.capacity)
+      throw new Error("Record is larger than the buffer");
+
+    const read = this.indices.read();
+    const write = this.indices.write();
+    if (this.indices.free(read, write) < size) return false;
+
+    const prefix = new Uint8Array(LENGTH_PREFIX_BYTES);
+    new DataView(prefix.buffer).setUint32(0, record.length, true);
+
+    this.copyIn(write, prefix);
+    this.copyIn(write + LENGTH_PREFIX_BYTES, record);
+    //the record is only visible to the consumer once the whole of it is written
+    this.indices.publishWrite(write + size);
+
+    return true;
+  }
+
+  /**
+   * Adds a record to the buffer, waiting for space if there isn't enough
+   * Blocks the thread, see Atomics.wait.
+   * @param {Uint8Array} record
+   * @param {number} timeoutMs - optional - defaults to waiting forever
+   * @returns {boolean} false if the timeout passed before there was space
+   */
+  writeBlocking(record: Uint8Array, timeoutMs = Infinity): boolean {
+    return this.indices.waitUntil(
+      () => this.write(record),
+      READ_INDEX,
+      timeoutMs,
+    );
+  }
+
+  /*****************************************************************************
+                                  CONSUMER
+  *****************************************************************************/
+  /**
+   * Removes and returns a copy of the oldest record - O(record length)
+   * @returns {Uint8Array | null} null if the buffer is empty
+   */
+  read(): Uint8Array | null {
+    const read = this.indices.read();
+    const write = this.indices.write();
+    if (read === write) return null;
+
+    const prefix = this.copyOut(read, LENGTH_PREFIX_BYTES);
+    const length = new DataView(prefix.buffer).getUint32(0, true);
+    const record = this.copyOut(read + LENGTH_PREFIX_BYTES, length);
+
+    this.indices.publishRead(read + LENGTH_PREFIX_BYTES + length);
+
+    return record;
+  }
+
+  /**
+   * Removes and returns the oldest record, waiting for one if the buffer is empty
+   * Blocks the thread, see Atomics.wait.
+   * @param {number} timeoutMs - optional - defaults to waiting forever
+   * @returns {Uint8Array | null} null if the timeout passed before a record arrived
+   */
+  readBlocking(timeoutMs = Infinity): Uint8Array | null {
+    let record: Uint8Array | null = null;
+    this.indices.waitUntil(
+      () => (record = this.read()) !== null,
+      WRITE_INDEX,
+      timeoutMs,
+    );
+
+    return record;
+  }
+
+  /*****************************************************************************
+                                  HELPERS
+  *****************************************************************************/
+  // copies bytes into the payload from position start, wrapping around at the end
+  private copyIn(start: number, bytes: Uint8Array): void {
+    const from = start % this.indices.slots;
+    const firstPart = Math.min(bytes.length, this.indices.slots - from);
+
+    this.data.set(bytes.subarray(0, firstPart), from);
+    this.data.set(bytes.subarray(firstPart), 0);
+  }
+
+  // copies length bytes out of the payload from position start, wrapping around at the end
+  private copyOut(start: number, length: number): Uint8Array {
+    const from = start % this.indices.slots;
+    const firstPart = Math.min(length, this.indices.slots - from);
+    const bytes = new Uint8Array(length);
+
+    bytes.set(this.data.subarray(from, from + firstPart), 0);
+    bytes.set(this.data.subarray(0, length - firstPart), firstPart);
+
+    return bytes;
+  }
+}
@@ -78,3 +78,5 @@ class Stack<T> implements Iterable<T> {
     return this.list[Symbol.iterator]();
   }
 }
+
+export default Stack;
@@ -0,0 +1,167 @@
+import BinaryHeap from "./binary-heap";
+import * as utils from "./utils";
+
+export interface TopKOptions<T> {
+  keep?: "largest" | "smallest"; // which end of the stream to keep, defaults to "largest"
+  compare?: utils.CompareFunction<T>; // defaults to utils.defaultCompare
+}
+
+/*******************************************************************************
+ * Keeps the k largest (or smallest) elements of a stream, using O(k) memory
+ * however long the stream is.
+ *
+ * To keep the k largest, we use a min heap of at most k elements. Its root is
+ * the smallest element we kept, which is the threshold a new element has to
+ * beat. If it does, the root is thrown out and the new element goes in. Keeping
+ * the k smallest is the same with a max heap.
+ *
+ * offer(element) - O(log(k))
+ * peekThreshold() - O(1)
+ * toSortedArray() - O(klog(k))
+ ******************************************************************************/
+
+class TopK<T> {
+  private k: number;
+  private heap: BinaryHeap<T>; // root is the worst element we kept
+  private isBetter: (a: T, b: T) => boolean;
+
+  /**
+   * @param {number} k - number of elements to keep
+   * @param {TopKOptions<T>} options - optional
+   */
+  constructor(k: number, options: TopKOptions<T> = {}) {
+    if (k < 0) throw new Error("K must be at least 0");
+
+    const compare = options.compare || utils.defaultCompare;
+    const keepLargest = options.keep !== "smallest";
+
+    this.k = k;
+    //the heap has the opposite order, so the worst element we kept is on top
+    this.heap = new BinaryHeap(undefined, {
+      order: keepLargest ? "min" : "max",
+      compare,
+    });
+    this.isBetter = keepLargest
+      ? (a, b) => compare(a, b) > 0
+      : (a, b) => compare(a, b) < 0;
+  }
+
+  /*****************************************************************************
+                                  INSPECTION
+  *****************************************************************************/
+  /**
+   * Returns the number of elements kept, at most k - O(1)
+   * @returns {number}
+   */
+  size(): number {
+    return this.heap.size();
+  }
+
+  /**
+   * Returns true if nothing was kept, false otherwise - O(1)
+   * @returns {boolean}
+   */
+  isEmpty(): boolean {
+    return this.heap.isEmpty();
+  }
+
+  /**
+   * Forgets every element kept so far - O(1)
+   * @returns {void}
+   */
+  clear(): void {
+    this.heap.clear();
+  }
+
+  /*****************************************************************************
+                                  INSERTION
+  *****************************************************************************/
+  /**
+   * Offers an element from the stream - O(log(k))
+   * Once k elements are kept, an element is only admitted if it beats the
+   * threshold. Elements equal to the threshold are not admitted.
+   * @param {T} element
+   * @returns {boolean} true if the element was admitted
+   */
+  offer(element: T): boolean {
+    if (this.heap.size() < this.k) {
+      this.heap.add(element);
+      return true;
+    }
+
+    const threshold = this.heap.peek();
+    if (threshold === null || !this.isBetter(element, threshold)) return false;
+
+    this.heap.poll();
+    this.heap.add(element);
+
+    return true;
+  }
+
+  /*****************************************************************************
+                                  ACCESSING
+  *****************************************************************************/
+  /**
+   * Peeks at the worst element kept, which a new element has to beat once k elements are kept - O(1)
+   * @returns {T | null} null if nothing was kept
+   */
+  peekThreshold(): T | null {
+    return this.heap.peek();
+  }
+
+  /**
+   * Returns the elements kept, best first - O(klog(k))
+   * So the largest first when keeping the largest, and the smallest first when keeping the smallest.
+   * @returns {T[]}
+   */
+  toSortedArray(): T[] {
+    //the heap yields the worst element first
+    return Array.from(this.heap.sortedIterator()).reverse();
+  }
+}
+
+/**
+ * Returns the k smallest elements, smallest first - O(nlog(k))
+ * @param {Iterable<T>} elements
+ * @param {number} k
+ * @param {CompareFunction<T>} compareFunction - optional - defaults to utils.defaultCompare
+ * @returns {T[]}
+ */
+export function smallestK<T>(
+  elements: Iterable<T>,
+  k: number,
+  compareFunction?: utils.CompareFunction<T>,
+): T[] {
+  return keepK(elements, k, {keep: "smallest", compare: compareFunction});
+}
+
+/**
+ * Returns the k largest elements, largest first - O(nlog(k))
+ * @param {Iterable<T>} elements
+ * @param {number} k
+ * @param {CompareFunction<T>} compareFunction - optional - defaults to utils.defaultCompare
+ * @returns {T[]}
+ */
+export function largestK<T>(
+  elements: Iterable<T>,
+  k: number,
+  compareFunction?: utils.CompareFunction<T>,
+): T[] {
+  return keepK(elements, k, {keep: "largest", compare: compareFunction});
+}
+
+// O(nlog(k)) - offers every element to a TopK and returns what it kept
+function keepK<T>(
+  elements: Iterable<T>,
+  k: number,
+  options: TopKOptions<T>,
+): T[] {
+  const topK = new TopK(k, options);
+  for (const element of elements) {
+    topK.offer(element);
+  }
+
+  return topK.toSortedArray();
+}
+
+export default TopK;
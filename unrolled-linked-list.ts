@@ -0,0 +1,1000 @@
+import {ListADT, ListIterator} from "./list-adt";
+import PersistentList from "./persistent-list";
+import * as utils from "./utils";
+
+/*******************************************************************************
+ * An unrolled linked list stores a small array of values (a chunk) in every
+ * node instead of a single value. Walking the list skips a whole chunk at a
+ * time, and values that sit next to each other also sit next to each other in
+ * memory, which is a lot friendlier to the CPU cache.
+ *
+ * Chunks hold at most chunkCapacity values. A full chunk is split in half when
+ * we insert into it, and a chunk that drops below half full is merged with its
+ * next chunk when they fit into one.
+ *
+ * addBack(val) - O(1) amortized
+ * addFront(val) - O(chunkCapacity), values in the head chunk shift over
+ * get(i) / addAt(i, val) / removeAt(i) - O(n / chunkCapacity + chunkCapacity)
+ *
+ * It implements the same ListADT as ./linked-list.ts, so the two can be swapped.
+ * Node handles are the exception: values move between chunks, so there is no
+ * node a handle could stay attached to. Cursors track an index instead.
+ *
+ * For more info, refer to https://en.wikipedia.org/wiki/Unrolled_linked_list
+ ******************************************************************************/
+
+interface Position<T> {
+  chunk: LinkedListNode<T[]>;
+  offset: number;
+}
+
+class UnrolledLinkedList<T> implements ListADT<T> {
+  private head: LinkedListNode<T[]> | null;
+  private tail: LinkedListNode<T[]> | null;
+  private sz: number;
+  private chunkCapacity: number; // max number of values in a chunk
+  private equalsF: utils.EqualsFunction<T> = utils.defaultEquals;
+  private modCount = 0; // number of structural changes, lets cursors fail fast
+
+  constructor(equalsFunction?: utils.EqualsFunction<T>, chunkCapacity = 64) {
+    this.head = null;
+    this.tail = null;
+    this.sz = 0;
+    this.chunkCapacity = Math.max(2, chunkCapacity); // we need to be able to split a chunk in half
+    if (equalsFunction) this.equalsF = equalsFunction;
+  }
+
+  /*****************************************************************************
+                                  NICETIES
+  *****************************************************************************/
+  /**
+   * Returns size - O(1)
+   * @return {number}
+   */
+  size(): number {
+    return this.sz;
+  }
+
+  /**
+   * Returns true if the list is empty, false otherwise - O(1)
+   * @returns boolean
+   */
+  isEmpty(): boolean {
+    return this.sz === 0;
+  }
+
+  /**
+   * Deletes all values - O(1)
+   */
+  clear(): void {
+    this.modCount += 1;
+    this.head = null;
+    this.tail = null;
+    this.sz = 0;
+  }
+
+  /*****************************************************************************
+                                  INSERTION
+  *****************************************************************************/
+  /**
+   * Adds a value to the head of the list - O(chunkCapacity)
+   * @param {T} - value to add to List
+   * @return {void}
+   */
+  addFront(val: T): void {
+    if (this.head && this.head.val.length < this.chunkCapacity) {
+      this.head.val.unshift(val);
+    } else {
+      this.insertChunkAfter(null, [val]);
+    }
+
+    this.sz += 1;
+    this.modCount += 1;
+  }
+
+  /**
+   * Adds a value to the tail of the list - O(1) amortized
+   * @param {T} - value to add to list
+   * @return {void}
+   */
+  addBack(val: T): void {
+    if (this.tail && this.tail.val.length < this.chunkCapacity) {
+      this.tail.val.push(val);
+    } else {
+      this.insertChunkAfter(this.tail, [val]);
+    }
+
+    this.sz += 1;
+    this.modCount += 1;
+  }
+
+  /**
+   * Adds a value at specified index - O(n / chunkCapacity + chunkCapacity)
+   * @param {number} i - index
+   * @param {T} val - value to add to the list
+   * @return {void}
+   */
+  addAt(i: number, val: T): void {
+    if (i === this.size()) {
+      this.addBack(val);
+      return;
+    }
+
+    if (i < 0 || i > this.size()) throw new Error("OUT OF BOUND ERROR");
+
+    this.insertAt(this.locate(i), val);
+  }
+
+  /*****************************************************************************
+                                  ACCESSING
+  *****************************************************************************/
+  /**
+   * Gets the value of head - O(1)
+   * @returns {T} value of head
+   */
+  peekFront(): T {
+    if (!this.head) throw new Error("List is Empty, Can't Peek!");
+
+    return this.head.val[0];
+  }
+
+  /**
+   * Gets the value of Tail - O(1)
+   * @returns {T} value of Tail
+   */
+  peekBack(): T {
+    if (!this.tail) throw new Error("List is Empty, Can't Peek!");
+
+    return this.tail.val[this.tail.val.length - 1];
+  }
+
+  /**
+   * Gets the value at the index i - O(n / chunkCapacity)
+   * @param {number} i - index of the value
+   * @returns {T} value at index i
+   */
+  get(i: number): T {
+    if (i < 0 || i >= this.size()) throw new Error("OUT OF BOUND ERROR");
+
+    const {chunk, offset} = this.locate(i);
+
+    return chunk.val[offset];
+  }
+
+  /*****************************************************************************
+                                  SEARCHING
+  *****************************************************************************/
+  /**
+   * Returns the index of the first occurence of value, and -1 if it doesn't exist - O(n)
+   * @param {T} value - value to search for
+   * @param {EqualsFunction<T>} equalsFunction - optional - defaults to the list's equals function
+   * @return {number}
+   */
+  indexOf(value: T, equalsFunction?: utils.EqualsFunction<T>): number {
+    const equalsF = equalsFunction || this.equalsF;
+
+    let i = 0;
+    for (let chunk = this.head; chunk; chunk = chunk.next) {
+      for (const val of chunk.val) {
+        if (equalsF(val, value)) return i;
+        i++;
+      }
+    }
+
+    return -1;
+  }
+
+  /**
+   * Check if the value is in the list - O(n)
+   * @param {T} value - value to search for
+   * @param {EqualsFunction<T>} equalsFunction - optional - defaults to the list's equals function
+   * @return {boolean}
+   */
+  contains(value: T, equalsFunction?: utils.EqualsFunction<T>): boolean {
+    return this.indexOf(value, equalsFunction) !== -1;
+  }
+
+  /*****************************************************************************
+                                  DELETION
+  *****************************************************************************/
+  /**
+   * Removes head and returns it - O(chunkCapacity)
+   * @return {T}
+   */
+  removeFront(): T {
+    if (!this.head) throw new Error("Empty Error");
+
+    return this.removeAtPosition({chunk: this.head, offset: 0});
+  }
+
+  /**
+   * Removes tail and returns it - O(1) amortized
+   * @return {T}
+   */
+  removeBack(): T {
+    if (!this.tail) throw new Error("Empty Error");
+
+    return this.removeAtPosition({
+      chunk: this.tail,
+      offset: this.tail.val.length - 1,
+    });
+  }
+
+  /**
+   * Removes the first occurence of val - O(n)
+   * @param {T} val - value to remove
+   * @returns {T} - removed value
+   */
+  remove(val: T): T {
+    const index = this.indexOf(val);
+
+    if (index === -1) throw new Error("Value doesn't exist");
+
+    return this.removeAt(index);
+  }
+
+  /**
+   * Removes the value at specified index - O(n / chunkCapacity + chunkCapacity)
+   * @param {number} i - index to remove
+   * @return {T} - removed value
+   */
+  removeAt(i: number): T {
+    if (i < 0 || i >= this.size()) throw new Error("OUT OF BOUND ERROR");
+
+    return this.removeAtPosition(this.locate(i));
+  }
+
+  /*****************************************************************************
+                                  ORDERING
+  *****************************************************************************/
+  /**
+   * Sorts the list in place - O(nlog(n))
+   * The sort is stable.
+   * @param {CompareFunction<T>} compareFunction - optional - defaults to utils.defaultCompare
+   * @return {UnrolledLinkedList<T>} this list
+   */
+  sort(compareFunction?: utils.CompareFunction<T>): UnrolledLinkedList<T> {
+    //Array.prototype.sort is stable, so we sort a copy and chunk it up again
+    const sorted = Array.from(this).sort(
+      compareFunction || utils.defaultCompare,
+    );
+
+    this.clear();
+    return this.fromArray(sorted);
+  }
+
+  /**
+   * Reverses the list in place - O(n)
+   * @return {UnrolledLinkedList<T>} this list
+   */
+  reverse(): UnrolledLinkedList<T> {
+    this.modCount += 1;
+    let chunk = this.head;
+    while (chunk) {
+      const next: LinkedListNode<T[]> | null = chunk.next;
+      chunk.next = chunk.prev;
+      chunk.prev = next;
+      chunk.val.reverse();
+      chunk = next;
+    }
+
+    const head = this.head;
+    this.head = this.tail;
+    this.tail = head;
+
+    return this;
+  }
+
+  /**
+   * Merges two sorted lists into a new sorted list - O(n + m)
+   * Both lists are empty afterwards. On ties, values of a come before values of b.
+   * The new list keeps a's equals function and chunk capacity.
+   * @param {UnrolledLinkedList<T>} a - sorted list
+   * @param {UnrolledLinkedList<T>} b - sorted list
+   * @param {CompareFunction<T>} compareFunction - optional - defaults to utils.defaultCompare
+   * @return {UnrolledLinkedList<T>}
+   */
+  static mergeSorted<T>(
+    a: UnrolledLinkedList<T>,
+    b: UnrolledLinkedList<T>,
+    compareFunction?: utils.CompareFunction<T>,
+  ): UnrolledLinkedList<T> {
+    if (a === b) throw new Error("Can't merge a list with itself");
+
+    const compare = compareFunction || utils.defaultCompare;
+    const merged = new UnrolledLinkedList<T>(a.equalsF, a.chunkCapacity);
+
+    const itA = a[Symbol.iterator]();
+    const itB = b[Symbol.iterator]();
+    let nextA = itA.next();
+    let nextB = itB.next();
+
+    while (!nextA.done || !nextB.done) {
+      //taking from a when the values are equal is what keeps the merge stable
+      if (
+        nextB.done ||
+        (!nextA.done && compare(nextA.value, nextB.value) <= 0)
+      ) {
+        merged.addBack(nextA.value);
+        nextA = itA.next();
+      } else {
+        merged.addBack(nextB.value);
+        nextB = itB.next();
+      }
+    }
+
+    a.clear();
+    b.clear();
+
+    return merged;
+  }
+
+  /*****************************************************************************
+                                  BULK EDITING
+  *****************************************************************************/
+  /**
+   * Returns a copy of the values from start up to, but not including, end - O(n)
+   * Negative indices count back from the tail, like Array.prototype.slice.
+   * @param {number} start - optional - defaults to 0
+   * @param {number} end - optional - defaults to the size of the list
+   * @return {UnrolledLinkedList<T>} new list with the source's equals function
+   */
+  slice(start?: number, end?: number): UnrolledLinkedList<T> {
+    const from = this.toBoundedIndex(start, 0);
+    const to = this.toBoundedIndex(end, this.size());
+    const sliced = new UnrolledLinkedList<T>(this.equalsF, this.chunkCapacity);
+    if (from >= to) return sliced;
+
+    let {chunk, offset} = this.locate(from);
+    for (let i = from; i < to; i++) {
+      if (offset === chunk.val.length) {
+        chunk = chunk.next!;
+        offset = 0;
+      }
+
+      sliced.addBack(chunk.val[offset]);
+      offset++;
+    }
+
+    return sliced;
+  }
+
+  /**
+   * Removes deleteCount values from start and inserts items in their place
+   * - O(n / chunkCapacity + (deleteCount + k) * chunkCapacity) where k is the number
+   * of items. Negative indices count back from the tail, like Array.prototype.splice.
+   * @param {number} start - index to start editing at
+   * @param {number} deleteCount - optional - defaults to everything after start
+   * @param {...T} items - values to insert at start
+   * @return {T[]} removed values
+   */
+  splice(start: number, deleteCount?: number, ...items: T[]): T[] {
+    const from = this.toBoundedIndex(start, 0);
+    const count =
+      deleteCount === undefined
+        ? this.size() - from
+        : Math.min(Math.max(0, deleteCount), this.size() - from);
+    const removed: T[] = [];
+
+    if (count > 0) {
+      let {chunk, offset} = this.locate(from);
+      const first = chunk;
+      let remaining = count;
+
+      //remove as much as we can from every chunk in the range with a single splice
+      while (remaining > 0) {
+        const take = Math.min(remaining, chunk.val.length - offset);
+        removed.push(...chunk.val.splice(offset, take));
+        remaining -= take;
+        this.sz -= take;
+        this.modCount += 1;
+
+        const next = chunk.next;
+        if (chunk.val.length === 0) this.unlinkChunk(chunk);
+        chunk = next!;
+        offset = 0;
+      }
+
+      if (first.val.length > 0) this.mergeWithNext(first);
+    }
+
+    if (from === this.size()) {
+      for (const item of items) this.addBack(item);
+    } else if (items.length > 0) {
+      let position = this.locate(from);
+      for (const item of items) {
+        position = this.insertAt(position, item);
+        position.offset += 1;
+      }
+    }
+
+    return removed;
+  }
+
+  /**
+   * Moves all values of other to the tail of this list - O(1)
+   * other is empty afterwards.
+   * @param {UnrolledLinkedList<T>} other - list to take the values from
+   * @return {UnrolledLinkedList<T>} this list
+   */
+  concat(other: UnrolledLinkedList<T>): UnrolledLinkedList<T> {
+    if (other === this) throw new Error("Can't concat a list with itself");
+    if (!other.head) return this;
+
+    if (this.tail) {
+      this.tail.next = other.head;
+      other.head.prev = this.tail;
+    } else {
+      this.head = other.head;
+    }
+
+    this.tail = other.tail;
+    this.sz += other.sz;
+    this.modCount += 1;
+    other.clear();
+
+    return this;
+  }
+
+  /**
+   * Detaches the values from index i to the tail into a new list - O(n / chunkCapacity + chunkCapacity)
+   * @param {number} i - index of the first value to detach
+   * @return {UnrolledLinkedList<T>} new list with the source's equals function
+   */
+  splitAt(i: number): UnrolledLinkedList<T> {
+    if (i < 0 || i > this.size()) throw new Error("OUT OF BOUND ERROR");
+
+    const detached = new UnrolledLinkedList<T>(
+      this.equalsF,
+      this.chunkCapacity,
+    );
+    if (i === this.size()) return detached;
+
+    let {chunk, offset} = this.locate(i);
+    if (offset > 0) {
+      //split the chunk, so the detached values start at the head of a chunk
+      chunk = this.insertChunkAfter(chunk, chunk.val.splice(offset));
+    }
+
+    detached.head = chunk;
+    detached.tail = this.tail;
+    detached.sz = this.sz - i;
+
+    this.tail = chunk.prev;
+    if (this.tail) this.tail.next = null;
+    else this.head = null;
+    this.sz = i;
+    this.modCount += 1;
+    chunk.prev = null;
+
+    return detached;
+  }
+
+  /*****************************************************************************
+                                  FUNCTIONAL
+  *****************************************************************************/
+  /**
+   * Returns a new list with the result of calling fn on every value - O(n)
+   * @param {function(T, number, UnrolledLinkedList<T>): U} fn - function to apply to every value
+   * @param {EqualsFunction<U>} equalsFunction - optional - equals function of the new list
+   * @return {UnrolledLinkedList<U>}
+   */
+  map<U>(
+    fn: (val: T, i: number, list: UnrolledLinkedList<T>) => U,
+    equalsFunction?: utils.EqualsFunction<U>,
+  ): UnrolledLinkedList<U> {
+    const mapped = new UnrolledLinkedList<U>(
+      equalsFunction,
+      this.chunkCapacity,
+    );
+
+    for (const val of this.lazyMap(fn)) {
+      mapped.addBack(val);
+    }
+
+    return mapped;
+  }
+
+  /**
+   * Returns a new list with the values that pass the predicate - O(n)
+   * @param {function(T, number, UnrolledLinkedList<T>): boolean} predicate
+   * @return {UnrolledLinkedList<T>}
+   */
+  filter(
+    predicate: (val: T, i: number, list: UnrolledLinkedList<T>) => boolean,
+  ): UnrolledLinkedList<T> {
+    const filtered = new UnrolledLinkedList<T>(
+      this.equalsF,
+      this.chunkCapacity,
+    );
+
+    for (const val of this.lazyFilter(predicate)) {
+      filtered.addBack(val);
+    }
+
+    return filtered;
+  }
+
+  /**
+   * Maps every value to an iterable and flattens the results into a new list - O(n + m)
+   * where m is the total number of values produced by fn
+   * @param {function(T, number, UnrolledLinkedList<T>): Iterable<U>} fn
+   * @param {EqualsFunction<U>} equalsFunction - optional - equals function of the new list
+   * @return {UnrolledLinkedList<U>}
+   */
+  flatMap<U>(
+    fn: (val: T, i: number, list: UnrolledLinkedList<T>) => Iterable<U>,
+    equalsFunction?: utils.EqualsFunction<U>,
+  ): UnrolledLinkedList<U> {
+    const flattened = new UnrolledLinkedList<U>(
+      equalsFunction,
+      this.chunkCapacity,
+    );
+
+    for (const val of this.lazyFlatMap(fn)) {
+      flattened.addBack(val);
+    }
+
+    return flattened;
+  }
+
+  /**
+   * Reduces the list from head to tail into a single value - O(n)
+   * If no initial value is given, the head is used as the initial value.
+   * @param {function(U, T, number, UnrolledLinkedList<T>): U} reducer
+   * @param {U} initialValue - optional
+   * @return {U}
+   * @throws Empty List error if the list is empty and no initial value is given
+   */
+  reduce(
+    reducer: (acc: T, val: T, i: number, list: UnrolledLinkedList<T>) => T,
+  ): T;
+  reduce<U>(
+    reducer: (acc: U, val: T, i: number, list: UnrolledLinkedList<T>) => U,
+    initialValue: U,
+  ): U;
+  reduce<U>(
+    reducer: (acc: U, val: T, i: number, list: UnrolledLinkedList<T>) => U,
+    initialValue?: U,
+  ): U {
+    const hasInitialValue = arguments.length >= 2;
+    if (this.isEmpty() && !hasInitialValue) {
+      throw new Error("List is Empty, Can't Reduce!");
+    }
+
+    let i = 0;
+    let acc = initialValue as U;
+
+    for (const val of this) {
+      //without an initial value, the head is the initial value and we start reducing from the second value
+      if (i === 0 && !hasInitialValue) acc = val as unknown as U;
+      else acc = reducer(acc, val, i, this);
+      i++;
+    }
+
+    return acc;
+  }
+
+  /**
+   * Returns the first value that passes the predicate, or undefined if there is none - O(n)
+   * @param {function(T, number, UnrolledLinkedList<T>): boolean} predicate
+   * @return {T | undefined}
+   */
+  find(
+    predicate: (val: T, i: number, list: UnrolledLinkedList<T>) => boolean,
+  ): T | undefined {
+    let i = 0;
+
+    for (const val of this) {
+      if (predicate(val, i, this)) return val;
+      i++;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Returns the index of the first value that passes the predicate, and -1 if there is none - O(n)
+   * @param {function(T, number, UnrolledLinkedList<T>): boolean} predicate
+   * @return {number}
+   */
+  findIndex(
+    predicate: (val: T, i: number, list: UnrolledLinkedList<T>) => boolean,
+  ): number {
+    let i = 0;
+
+    for (const val of this) {
+      if (predicate(val, i, this)) return i;
+      i++;
+    }
+
+    return -1;
+  }
+
+  /**
+   * Returns true if at least one value passes the predicate - O(n)
+   * @param {function(T, number, UnrolledLinkedList<T>): boolean} predicate
+   * @return {boolean}
+   */
+  some(
+    predicate: (val: T, i: number, list: UnrolledLinkedList<T>) => boolean,
+  ): boolean {
+    return this.findIndex(predicate) !== -1;
+  }
+
+  /**
+   * Returns true if every value passes the predicate, true for an empty list - O(n)
+   * @param {function(T, number, UnrolledLinkedList<T>): boolean} predicate
+   * @return {boolean}
+   */
+  every(
+    predicate: (val: T, i: number, list: UnrolledLinkedList<T>) => boolean,
+  ): boolean {
+    return this.findIndex((val, i, list) => !predicate(val, i, list)) === -1;
+  }
+
+  /**
+   * Calls fn on every value from head to tail - O(n)
+   * @param {function(T, number, UnrolledLinkedList<T>): void} fn
+   * @return {void}
+   */
+  forEach(fn: (val: T, i: number, list: UnrolledLinkedList<T>) => void): void {
+    let i = 0;
+
+    for (const val of this) {
+      fn(val, i, this);
+      i++;
+    }
+  }
+
+  /**
+   * Lazily maps the list. Values are only computed as they are pulled - O(1) per value
+   * @param {function(T, number, UnrolledLinkedList<T>): U} fn
+   * @return {Generator<U>}
+   */
+  *lazyMap<U>(
+    fn: (val: T, i: number, list: UnrolledLinkedList<T>) => U,
+  ): Generator<U> {
+    let i = 0;
+
+    for (const val of this) {
+      yield fn(val, i, this);
+      i++;
+    }
+  }
+
+  /**
+   * Lazily filters the list. The predicate is only called as values are pulled
+   * @param {function(T, number, UnrolledLinkedList<T>): boolean} predicate
+   * @return {Generator<T>}
+   */
+  *lazyFilter(
+    predicate: (val: T, i: number, list: UnrolledLinkedList<T>) => boolean,
+  ): Generator<T> {
+    let i = 0;
+
+    for (const val of this) {
+      if (predicate(val, i, this)) yield val;
+      i++;
+    }
+  }
+
+  /**
+   * Lazily maps every value to an iterable and yields its values one at a time
+   * @param {function(T, number, UnrolledLinkedList<T>): Iterable<U>} fn
+   * @return {Generator<U>}
+   */
+  *lazyFlatMap<U>(
+    fn: (val: T, i: number, list: UnrolledLinkedList<T>) => Iterable<U>,
+  ): Generator<U> {
+    let i = 0;
+
+    for (const val of this) {
+      yield* fn(val, i, this);
+      i++;
+    }
+  }
+
+  /*****************************************************************************
+                                  HELPERS
+  *****************************************************************************/
+  /**
+   * Finds the chunk and offset of index i, walking from whichever end is nearer - O(n / chunkCapacity)
+   * @param {number} i - index, must be in bounds
+   * @return {Position<T>}
+   */
+  private locate(i: number): Position<T> {
+    if (i < this.sz / 2) {
+      let chunk = this.head!;
+      while (i >= chunk.val.length) {
+        i -= chunk.val.length;
+        chunk = chunk.next!;
+      }
+
+      return {chunk, offset: i};
+    }
+
+    //j is the distance from the tail
+    let j = this.sz - 1 - i;
+    let chunk = this.tail!;
+    while (j >= chunk.val.length) {
+      j -= chunk.val.length;
+      chunk = chunk.prev!;
+    }
+
+    return {chunk, offset: chunk.val.length - 1 - j};
+  }
+
+  /**
+   * Inserts val at the position, splitting the chunk in half if it is full - O(chunkCapacity)
+   * @param {Position<T>} position - offset may be one past the last value of the chunk
+   * @param {T} val
+   * @return {Position<T>} position of the inserted value
+   */
+  private insertAt({chunk, offset}: Position<T>, val: T): Position<T> {
+    if (chunk.val.length >= this.chunkCapacity) {
+      const half = Math.floor(chunk.val.length / 2);
+      const newChunk = this.insertChunkAfter(chunk, chunk.val.splice(half));
+
+      if (offset > half) {
+        chunk = newChunk;
+        offset -= half;
+      }
+    }
+
+    chunk.val.splice(offset, 0, val);
+    this.sz += 1;
+    this.modCount += 1;
+
+    return {chunk, offset};
+  }
+
+  /**
+   * Removes the value at the position, merging or dropping its chunk if it runs low - O(chunkCapacity)
+   * @param {Position<T>} position
+   * @return {T} removed value
+   */
+  private removeAtPosition({chunk, offset}: Position<T>): T {
+    const [val] = chunk.val.splice(offset, 1);
+    this.sz -= 1;
+    this.modCount += 1;
+
+    if (chunk.val.length === 0) this.unlinkChunk(chunk);
+    else this.mergeWithNext(chunk);
+
+    return val;
+  }
+
+  /**
+   * Moves the values of the next chunk into chunk if chunk is less than half full and they fit - O(chunkCapacity)
+   * @param {LinkedListNode<T[]>} chunk
+   * @return {void}
+   */
+  private mergeWithNext(chunk: LinkedListNode<T[]>): void {
+    const next = chunk.next;
+    if (!next || chunk.val.length >= this.chunkCapacity / 2) return;
+    if (chunk.val.length + next.val.length > this.chunkCapacity) return;
+
+    chunk.val.push(...next.val);
+    this.unlinkChunk(next);
+  }
+
+  /**
+   * Links a new chunk with values after chunk, or at the head if chunk is null - O(1)
+   * Doesn't change the size, that's up to the caller.
+   * @param {LinkedListNode<T[]> | null} chunk
+   * @param {T[]} values
+   * @return {LinkedListNode<T[]>} the new chunk
+   */
+  private insertChunkAfter(
+    chunk: LinkedListNode<T[]> | null,
+    values: T[],
+  ): LinkedListNode<T[]> {
+    const newChunk = new LinkedListNode(values);
+    const next = chunk ? chunk.next : this.head;
+
+    newChunk.prev = chunk;
+    newChunk.next = next;
+
+    if (chunk) chunk.next = newChunk;
+    else this.head = newChunk;
+
+    if (next) next.prev = newChunk;
+    else this.tail = newChunk;
+
+    return newChunk;
+  }
+
+  /**
+   * Detaches a chunk, keeping head and tail consistent - O(1)
+   * Doesn't change the size, that's up to the caller.
+   * @param {LinkedListNode<T[]>} chunk
+   * @return {void}
+   */
+  private unlinkChunk(chunk: LinkedListNode<T[]>): void {
+    if (chunk.prev) chunk.prev.next = chunk.next;
+    else this.head = chunk.next;
+
+    if (chunk.next) chunk.next.prev = chunk.prev;
+    else this.tail = chunk.prev;
+
+    chunk.prev = null;
+    chunk.next = null;
+  }
+
+  /**
+   * Turns a possibly negative or out of range index into one in [0, size] - O(1)
+   * @param {number | undefined} i - index, negative counts back from the tail
+   * @param {number} fallback - index to use if i is undefined
+   * @return {number}
+   */
+  private toBoundedIndex(i: number | undefined, fallback: number): number {
+    if (i === undefined) return fallback;
+    if (i < 0) return Math.max(0, this.size() + i);
+
+    return Math.min(i, this.size());
+  }
+
+  fromArray(A: T[]): UnrolledLinkedList<T> {
+    for (const a of A) {
+      this.addBack(a);
+    }
+
+    return this;
+  }
+
+  /**
+   * Copies the values into a new immutable PersistentList - O(n)
+   * @return {PersistentList<T>}
+   */
+  toPersistent(): PersistentList<T> {
+    return PersistentList.fromArray(Array.from(this));
+  }
+
+  *[Symbol.iterator](): Iterator<T> {
+    for (let chunk = this.head; chunk != null; chunk = chunk.next) {
+      yield* chunk.val;
+    }
+  }
+
+  /**
+   * Iterates the list from tail to head
+   * @return {Generator<T>}
+   */
+  *reverseIterator(): Generator<T> {
+    for (let chunk = this.tail; chunk != null; chunk = chunk.prev) {
+      for (let i = chunk.val.length - 1; i >= 0; i--) {
+        yield chunk.val[i];
+      }
+    }
+  }
+
+  /**
+   * Returns a cursor positioned before the head of the list - O(1)
+   * @return {ListIterator<T>}
+   */
+  cursor(): ListIterator<T> {
+    return this.listIterator(0);
+  }
+
+  /**
+   * Returns a cursor positioned before the value at fromIndex - O(n / chunkCapacity)
+   * The cursor tracks an index, since values move between chunks when the list
+   * changes. Steps are O(1). Edits go through addAt() and removeAt() and find
+   * the cursor's chunk again afterwards, so they cost as much as those. The
+   * cursor throws as soon as it notices that the list was structurally changed
+   * by anything but itself.
+   * @param {number} fromIndex - optional - index of the value next() returns first, defaults to 0
+   * @return {ListIterator<T>}
+   */
+  listIterator(fromIndex = 0): ListIterator<T> {
+    if (fromIndex < 0 || fromIndex > this.size()) {
+      throw new Error("OUT OF BOUND ERROR");
+    }
+
+    const list = this;
+    let nextIndex = fromIndex;
+    //position of the value at nextIndex, null when the cursor is past the tail
+    let nextPosition: Position<T> | null = null;
+    //index of the value returned last by next() or prev(), the one set() and remove() act on
+    let lastIndex = -1;
+    let expectedModCount = this.modCount;
+
+    const checkForModification = (): void => {
+      if (list.modCount !== expectedModCount) {
+        throw new Error("List was modified outside of the cursor");
+      }
+    };
+
+    const relocate = (): void => {
+      nextPosition = nextIndex < list.size() ? list.locate(nextIndex) : null;
+      expectedModCount = list.modCount;
+    };
+
+    relocate();
+
+    return {
+      hasNext(): boolean {
+        return nextIndex < list.size();
+      },
+
+      next(): T {
+        checkForModification();
+        if (!nextPosition) throw new Error("No next element");
+
+        const {chunk, offset} = nextPosition;
+        nextPosition =
+          offset + 1 < chunk.val.length
+            ? {chunk, offset: offset + 1}
+            : chunk.next && {chunk: chunk.next, offset: 0};
+        lastIndex = nextIndex;
+        nextIndex += 1;
+
+        return chunk.val[offset];
+      },
+
+      hasPrev(): boolean {
+        return nextIndex > 0;
+      },
+
+      prev(): T {
+        checkForModification();
+        if (nextIndex === 0) throw new Error("No previous element");
+
+        if (!nextPosition) {
+          const tail = list.tail!;
+          nextPosition = {chunk: tail, offset: tail.val.length - 1};
+        } else if (nextPosition.offset > 0) {
+          nextPosition = {
+            chunk: nextPosition.chunk,
+            offset: nextPosition.offset - 1,
+          };
+        } else {
+          const prev = nextPosition.chunk.prev!;
+          nextPosition = {chunk: prev, offset: prev.val.length - 1};
+        }
+        nextIndex -= 1;
+        lastIndex = nextIndex;
+
+        return nextPosition.chunk.val[nextPosition.offset];
+      },
+
+      index(): number {
+        return nextIndex;
+      },
+
+      set(val: T): void {
+        checkForModification();
+        if (lastIndex === -1) throw new Error("No element to set");
+
+        const {chunk, offset} = list.locate(lastIndex);
+        chunk.val[offset] = val;
+      },
+
+      insert(val: T): void {
+        checkForModification();
+
+        //the new value is before the cursor, so next() still returns the same value
+        list.addAt(nextIndex, val);
+        nextIndex += 1;
+        lastIndex = -1;
+        relocate();
+      },
+
+      remove(): T {
+        checkForModification();
+        if (lastIndex === -1) throw new Error("No element to remove");
+
+        const val = list.removeAt(lastIndex);
+        //after next() the removed value was before the cursor
+        if (lastIndex < nextIndex) nextIndex -= 1;
+        lastIndex = -1;
+        relocate();
+
+        return val;
+      },
+    };
+  }
+}
+
+export default UnrolledLinkedList;
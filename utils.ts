@@ -38,3 +38,40 @@ export function defaultCompare<T>(a: T, b: T): number {
     return 1;
   }
 }
+
+/**
+ * Returns a compare function with the opposite order, by swapping the arguments.
+ * @function
+ */
+export function reverseCompare<T>(
+  compare: CompareFunction<T> = defaultCompare,
+): CompareFunction<T> {
+  return (a: T, b: T) => compare(b, a);
+}
+
+/**
+ * Token that tells which structure a node belongs to. When a structure hands all
+ * of its nodes to another one, it forwards its token to the other one's token.
+ */
+export interface Owner {
+  forward: Owner | null;
+}
+
+/**
+ * Follows the forward links to the current owner - amortized O(log(n))
+ * Every token on the way is pointed straight at the current owner (path
+ * compression), so a long chain of hand-overs is only walked once.
+ * @function
+ */
+export function resolveOwner(owner: Owner): Owner {
+  let current = owner;
+  while (current.forward) current = current.forward;
+
+  while (owner.forward && owner.forward !== current) {
+    const next: Owner = owner.forward;
+    owner.forward = current;
+    owner = next;
+  }
+
+  return current;
+}